@@ -4,8 +4,47 @@ import User, { IUser } from '../models/User';
 
 export interface AuthRequest extends Request {
   user?: IUser;
+  // When the token the request was made with expires
+  tokenExpiresAt?: Date;
+  // When the user signed in to the session the token belongs to, in seconds since the epoch
+  authTime?: number;
 }
 
+interface TokenPayload {
+  userId: string;
+  authTime?: number;
+  iat?: number;
+  exp?: number;
+}
+
+// Refreshed tokens carry the sign-in time forward, so a session ends this many seconds after
+// signing in however often its token is refreshed
+const getMaxSessionAge = (): number => {
+  return parseInt(process.env.SESSION_MAX_AGE || '2592000');
+};
+
+// Verifies a JWT and returns whose it is, when its session began and when it expires, which is
+// at the latest when the session reaches its maximum age
+export const verifyToken = (token: string): { userId: string; authTime: number; expiresAt: Date } => {
+  if (!process.env.JWT_SECRET) {
+    throw new Error('JWT_SECRET is not defined');
+  }
+
+  const decoded = jwt.verify(token, process.env.JWT_SECRET) as TokenPayload;
+  const authTime = decoded.authTime ?? decoded.iat ?? 0;
+  const sessionEndsAt = authTime + getMaxSessionAge();
+
+  if (sessionEndsAt * 1000 <= Date.now()) {
+    throw new Error('Session has expired');
+  }
+
+  return {
+    userId: decoded.userId,
+    authTime,
+    expiresAt: new Date(Math.min(decoded.exp ?? sessionEndsAt, sessionEndsAt) * 1000)
+  };
+};
+
 export const authenticate = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     const authHeader = req.header('Authorization');
@@ -19,12 +58,7 @@ export const authenticate = async (req: AuthRequest, res: Response, next: NextFu
     }
 
     const token = authHeader.substring(7); // Remove 'Bearer ' prefix
-    
-    if (!process.env.JWT_SECRET) {
-      throw new Error('JWT_SECRET is not defined');
-    }
-
-    const decoded = jwt.verify(token, process.env.JWT_SECRET) as { userId: string };
+    const decoded = verifyToken(token);
     
     const user = await User.findById(decoded.userId).select('+password');
     
@@ -37,6 +71,8 @@ export const authenticate = async (req: AuthRequest, res: Response, next: NextFu
     }
 
     req.user = user;
+    req.tokenExpiresAt = decoded.expiresAt;
+    req.authTime = decoded.authTime;
     next();
   } catch (error) {
     console.error('Authentication error:', error);
@@ -47,13 +83,14 @@ export const authenticate = async (req: AuthRequest, res: Response, next: NextFu
   }
 };
 
-export const generateToken = (userId: string): string => {
+// Signs a token for a new session, or for the session that began at `authTime` when refreshing
+export const generateToken = (userId: string, authTime = Math.floor(Date.now() / 1000)): string => {
   if (!process.env.JWT_SECRET) {
     throw new Error('JWT_SECRET is not defined');
   }
 
   return jwt.sign(
-    { userId },
+    { userId, authTime },
     process.env.JWT_SECRET,
     { expiresIn: process.env.JWT_EXPIRES_IN || '7d' }
   );
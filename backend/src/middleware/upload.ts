@@ -0,0 +1,125 @@
+import { Request, Response, NextFunction } from 'express';
+import { ServerResponse } from 'http';
+import multer from 'multer';
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+
+// MIME types accepted for attachments, grouped by the message type they produce, with the
+// extension stored files get. The extension decides the content type /uploads serves them with.
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp'
+};
+const FILE_EXTENSIONS: Record<string, string> = {
+  'application/pdf': '.pdf',
+  'application/zip': '.zip',
+  'application/json': '.json',
+  'application/msword': '.doc',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+  'application/vnd.ms-excel': '.xls',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
+  'text/plain': '.txt',
+  'text/csv': '.csv'
+};
+const IMAGE_MIME_TYPES = Object.keys(IMAGE_EXTENSIONS);
+const FILE_MIME_TYPES = Object.keys(FILE_EXTENSIONS);
+const STORED_IMAGE_EXTENSIONS = Object.values(IMAGE_EXTENSIONS);
+
+// Resolved lazily so values from .env are picked up after dotenv has run
+export const getUploadDir = (): string => {
+  return path.join(__dirname, '../..', process.env.UPLOAD_PATH || 'uploads');
+};
+
+const getMaxFileSize = (): number => {
+  return parseInt(process.env.MAX_FILE_SIZE || '10485760');
+};
+
+const storage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    const uploadDir = getUploadDir();
+    fs.mkdir(uploadDir, { recursive: true }, (error) => cb(error, uploadDir));
+  },
+  filename: (req, file, cb) => {
+    // Never trust the client's file name on disk, not even its extension
+    const ext = IMAGE_EXTENSIONS[file.mimetype] || FILE_EXTENSIONS[file.mimetype];
+    cb(null, `${Date.now()}-${crypto.randomBytes(8).toString('hex')}${ext}`);
+  }
+});
+
+const createUpload = () => multer({
+  storage,
+  limits: {
+    fileSize: getMaxFileSize(),
+    files: 1
+  },
+  fileFilter: (req, file, cb) => {
+    if (IMAGE_MIME_TYPES.includes(file.mimetype) || FILE_MIME_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      // statusCode is picked up by the global error handler in server.ts
+      cb(Object.assign(new Error('File type is not allowed'), { statusCode: 400 }));
+    }
+  }
+});
+
+export const getMessageTypeForMime = (mimetype: string): 'image' | 'file' => {
+  return IMAGE_MIME_TYPES.includes(mimetype) ? 'image' : 'file';
+};
+
+// Headers for files served from /uploads. Only images are displayed inline; everything else is
+// downloaded, so an upload can never run as a page on the API origin.
+export const setUploadHeaders = (res: ServerResponse, filePath: string): void => {
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+
+  if (!STORED_IMAGE_EXTENSIONS.includes(path.extname(filePath).toLowerCase())) {
+    res.setHeader('Content-Disposition', 'attachment');
+  }
+};
+
+export const removeUploadedFile = (file?: Express.Multer.File): void => {
+  if (!file) return;
+
+  fs.unlink(file.path, (error) => {
+    if (error) {
+      console.error('Failed to remove uploaded file:', error);
+    }
+  });
+};
+
+// Remove an attachment given the file name the upload route stored it under
+export const removeStoredFile = (storedFile?: string): void => {
+  if (!storedFile) return;
+
+  fs.unlink(path.join(getUploadDir(), path.basename(storedFile)), (error) => {
+    if (error) {
+      console.error('Failed to remove stored file:', error);
+    }
+  });
+};
+
+// Accept a single `file` field and turn multer errors into the API's JSON error shape
+export const uploadSingleFile = (req: Request, res: Response, next: NextFunction): void => {
+  createUpload().single('file')(req, res, (err: unknown) => {
+    if (!err) {
+      next();
+      return;
+    }
+
+    if (err instanceof multer.MulterError) {
+      const message = err.code === 'LIMIT_FILE_SIZE'
+        ? `File exceeds the maximum size of ${Math.round(getMaxFileSize() / (1024 * 1024))}MB`
+        : err.message;
+
+      res.status(400).json({
+        success: false,
+        message
+      });
+      return;
+    }
+
+    next(err);
+  });
+};
@@ -0,0 +1,23 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// WebSocket fan-out between server instances. Instances watch the collection through a
+// change stream, so each document only has to outlive that round trip.
+export interface IBusEvent extends Document {
+  // JSON-encoded BusMessage
+  message: string;
+  createdAt: Date;
+}
+
+const busEventSchema = new Schema<IBusEvent>({
+  message: {
+    type: String,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+    expires: 60
+  }
+});
+
+export default mongoose.model<IBusEvent>('BusEvent', busEventSchema);
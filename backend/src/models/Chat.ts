@@ -1,15 +1,112 @@
 import mongoose, { Schema, Document, Types } from 'mongoose';
 
+export const MAX_PINNED_MESSAGES = 10;
+
+export interface IPinnedMessage {
+  message: Types.ObjectId;
+  pinnedBy: Types.ObjectId;
+  pinnedAt: Date;
+}
+
+// How far a member has read, as the newest message they have seen
+export interface IReadPointer {
+  user: Types.ObjectId;
+  lastReadMessage: Types.ObjectId;
+  lastReadMessageAt: Date;
+  readAt: Date;
+}
+
+// How far a member's client has acknowledged receiving messages
+export interface IDeliveryPointer {
+  user: Types.ObjectId;
+  lastDeliveredMessage: Types.ObjectId;
+  lastDeliveredMessageAt: Date;
+  deliveredAt: Date;
+}
+
 export interface IChat extends Document {
   name?: string;
   type: 'private' | 'group';
   participants: Types.ObjectId[];
   admin?: Types.ObjectId;
   lastMessage?: Types.ObjectId;
+  pinnedMessages: IPinnedMessage[];
+  readPointers: IReadPointer[];
+  deliveryPointers: IDeliveryPointer[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Populates pinned messages with enough of the message to render the pinned banner
+export const pinnedMessagesPopulate = [
+  {
+    path: 'pinnedMessages.message',
+    select: 'sender content messageType fileName createdAt',
+    populate: { path: 'sender', select: 'username avatar' }
+  },
+  { path: 'pinnedMessages.pinnedBy', select: 'username avatar' }
+];
+
+const pinnedMessageSchema = new Schema<IPinnedMessage>({
+  message: {
+    type: Schema.Types.ObjectId,
+    ref: 'Message',
+    required: true
+  },
+  pinnedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  pinnedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const readPointerSchema = new Schema<IReadPointer>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  lastReadMessage: {
+    type: Schema.Types.ObjectId,
+    ref: 'Message',
+    required: true
+  },
+  // createdAt of lastReadMessage, so receipts and unread counts need no lookup
+  lastReadMessageAt: {
+    type: Date,
+    required: true
+  },
+  readAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const deliveryPointerSchema = new Schema<IDeliveryPointer>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  lastDeliveredMessage: {
+    type: Schema.Types.ObjectId,
+    ref: 'Message',
+    required: true
+  },
+  lastDeliveredMessageAt: {
+    type: Date,
+    required: true
+  },
+  deliveredAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
 const chatSchema = new Schema<IChat>({
   name: {
     type: String,
@@ -34,6 +131,24 @@ const chatSchema = new Schema<IChat>({
   lastMessage: {
     type: Schema.Types.ObjectId,
     ref: 'Message'
+  },
+  pinnedMessages: {
+    type: [pinnedMessageSchema],
+    default: [],
+    validate: {
+      validator: (pins: IPinnedMessage[]) => pins.length <= MAX_PINNED_MESSAGES,
+      message: `A chat cannot have more than ${MAX_PINNED_MESSAGES} pinned messages`
+    }
+  },
+  // One entry per member who has read anything, replacing per-message receipts
+  readPointers: {
+    type: [readPointerSchema],
+    default: []
+  },
+  // Same idea for delivery: the newest message each member's client has acknowledged
+  deliveryPointers: {
+    type: [deliveryPointerSchema],
+    default: []
   }
 }, {
   timestamps: true,
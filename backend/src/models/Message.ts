@@ -1,8 +1,13 @@
 import mongoose, { Schema, Document, Types } from 'mongoose';
 
-export interface IReadReceipt {
-  user: Types.ObjectId;
-  readAt: Date;
+export interface IReaction {
+  emoji: string;
+  users: Types.ObjectId[];
+}
+
+export interface IMessageRevision {
+  content: string;
+  editedAt: Date;
 }
 
 export interface IMessage extends Document {
@@ -13,22 +18,55 @@ export interface IMessage extends Document {
   fileUrl?: string;
   fileName?: string;
   fileSize?: number;
+  // Name of the file the upload route stored for this message, the only file deleting it may remove
+  storedFile?: string;
   isEdited: boolean;
   editedAt?: Date;
-  readBy: IReadReceipt[];
+  editHistory: IMessageRevision[];
+  replyTo?: Types.ObjectId;
+  reactions: IReaction[];
+  hiddenFor: Types.ObjectId[];
+  deletedAt?: Date;
+  clientMessageId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
-const readReceiptSchema = new Schema<IReadReceipt>({
-  user: {
+const REPLY_EXCERPT_LENGTH = 120;
+
+export const CLIENT_MESSAGE_ID_MAX_LENGTH = 64;
+
+// Populate options for the snapshot of a quoted message returned alongside replies
+export const replyToPopulate = {
+  path: 'replyTo',
+  select: 'sender content messageType fileName deletedAt createdAt',
+  populate: {
+    path: 'sender',
+    select: 'username avatar'
+  }
+};
+
+const reactionSchema = new Schema<IReaction>({
+  emoji: {
+    type: String,
+    required: true,
+    maxlength: [16, 'Reaction cannot exceed 16 characters']
+  },
+  users: [{
     type: Schema.Types.ObjectId,
-    ref: 'User',
+    ref: 'User'
+  }]
+}, { _id: false });
+
+// A previous version of a message's content and when that version was written
+const revisionSchema = new Schema<IMessageRevision>({
+  content: {
+    type: String,
     required: true
   },
-  readAt: {
+  editedAt: {
     type: Date,
-    default: Date.now
+    required: true
   }
 }, { _id: false });
 
@@ -45,7 +83,8 @@ const messageSchema = new Schema<IMessage>({
   },
   content: {
     type: String,
-    required: [true, 'Content is required'],
+    // Tombstones of messages deleted for everyone keep no content
+    required: [function(this: IMessage) { return !this.deletedAt; }, 'Content is required'],
     trim: true,
     maxlength: [2000, 'Message content cannot exceed 2000 characters']
   },
@@ -63,6 +102,10 @@ const messageSchema = new Schema<IMessage>({
   fileSize: {
     type: Number
   },
+  storedFile: {
+    type: String,
+    select: false
+  },
   isEdited: {
     type: Boolean,
     default: false
@@ -70,7 +113,29 @@ const messageSchema = new Schema<IMessage>({
   editedAt: {
     type: Date
   },
-  readBy: [readReceiptSchema]
+  // Oldest first; only loaded on demand by the history endpoint
+  editHistory: {
+    type: [revisionSchema],
+    select: false
+  },
+  replyTo: {
+    type: Schema.Types.ObjectId,
+    ref: 'Message'
+  },
+  reactions: [reactionSchema],
+  // Users who deleted the message only for themselves
+  hiddenFor: {
+    type: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+    select: false
+  },
+  deletedAt: {
+    type: Date
+  },
+  // Id chosen by the sending client, so retried sends are stored only once
+  clientMessageId: {
+    type: String,
+    maxlength: [CLIENT_MESSAGE_ID_MAX_LENGTH, `Client message ID cannot exceed ${CLIENT_MESSAGE_ID_MAX_LENGTH} characters`]
+  }
 }, {
   timestamps: true,
   toJSON: {
@@ -78,6 +143,12 @@ const messageSchema = new Schema<IMessage>({
       ret.id = ret._id;
       delete ret._id;
       delete ret.__v;
+
+      // Quoted messages only carry a short excerpt of their content
+      const replyTo = ret.replyTo as unknown as { content?: unknown } | undefined;
+      if (typeof replyTo?.content === 'string' && replyTo.content.length > REPLY_EXCERPT_LENGTH) {
+        replyTo.content = `${replyTo.content.substring(0, REPLY_EXCERPT_LENGTH)}…`;
+      }
       return ret;
     }
   }
@@ -87,5 +158,10 @@ const messageSchema = new Schema<IMessage>({
 messageSchema.index({ chat: 1, createdAt: -1 });
 messageSchema.index({ sender: 1 });
 messageSchema.index({ createdAt: -1 });
+messageSchema.index({ content: 'text' });
+messageSchema.index(
+  { sender: 1, clientMessageId: 1 },
+  { unique: true, partialFilterExpression: { clientMessageId: { $type: 'string' } } }
+);
 
 export default mongoose.model<IMessage>('Message', messageSchema);
\ No newline at end of file
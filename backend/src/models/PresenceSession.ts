@@ -0,0 +1,33 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// Sessions expire unless the instance holding them refreshes them within this time
+export const PRESENCE_SESSION_TTL_SECONDS = 90;
+
+// One open WebSocket session, on whichever server instance holds it
+export interface IPresenceSession extends Document {
+  sessionId: string;
+  user: Types.ObjectId;
+  lastSeen: Date;
+}
+
+const presenceSessionSchema = new Schema<IPresenceSession>({
+  sessionId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  lastSeen: {
+    type: Date,
+    default: Date.now,
+    expires: PRESENCE_SESSION_TTL_SECONDS
+  }
+});
+
+presenceSessionSchema.index({ user: 1 });
+
+export default mongoose.model<IPresenceSession>('PresenceSession', presenceSessionSchema);
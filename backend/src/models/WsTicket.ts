@@ -0,0 +1,34 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// Single-use credential for opening a WebSocket, so JWTs never appear in URLs.
+// Only a hash of the ticket is stored.
+export interface IWsTicket extends Document {
+  ticketHash: string;
+  user: Types.ObjectId;
+  // Expiry of the JWT the ticket was issued for; the connection must re-authenticate by then
+  authExpiresAt?: Date;
+  expiresAt: Date;
+}
+
+const wsTicketSchema = new Schema<IWsTicket>({
+  ticketHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  authExpiresAt: {
+    type: Date
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+    expires: 0
+  }
+});
+
+export default mongoose.model<IWsTicket>('WsTicket', wsTicketSchema);
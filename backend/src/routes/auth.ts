@@ -1,6 +1,8 @@
 import express from 'express';
 import User from '../models/User';
 import { authenticate, generateToken, AuthRequest } from '../middleware/auth';
+import { issueWsTicket, WS_TICKET_TTL_SECONDS } from '../services/ticketService';
+import { applyOnlineState } from '../services/presenceService';
 
 const router = express.Router();
 
@@ -90,10 +92,10 @@ router.post('/login', async (req, res) => {
       });
     }
 
-    // Update user status
-    user.isOnline = true;
+    // Online state follows the user's WebSocket sessions, which connect after login
     user.lastSeen = new Date();
     await user.save();
+    await applyOnlineState([user]);
 
     // Generate token
     const token = generateToken(user._id.toString());
@@ -135,6 +137,8 @@ router.get('/me', authenticate, async (req: AuthRequest, res) => {
       });
     }
 
+    await applyOnlineState([user]);
+
     res.json({
       success: true,
       data: {
@@ -158,11 +162,48 @@ router.get('/me', authenticate, async (req: AuthRequest, res) => {
   }
 });
 
+// Issue a new token before the current one expires. It belongs to the same session, so
+// refreshing cannot extend a session past its maximum age.
+router.post('/refresh', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const token = generateToken(req.user!.id, req.authTime);
+
+    res.json({
+      success: true,
+      data: { token }
+    });
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Issue a short-lived, single-use ticket for opening a WebSocket connection
+router.post('/ws-ticket', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const ticket = await issueWsTicket(req.user!.id, req.tokenExpiresAt);
+
+    res.json({
+      success: true,
+      data: { ticket, expiresIn: WS_TICKET_TTL_SECONDS }
+    });
+  } catch (error) {
+    console.error('Issue WebSocket ticket error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
 // Logout user
 router.post('/logout', authenticate, async (req: AuthRequest, res) => {
   try {
+    // Online state is left to the user's WebSocket sessions, which may stay open on other devices
     if (req.user) {
-      req.user.isOnline = false;
       req.user.lastSeen = new Date();
       await req.user.save();
     }
@@ -1,8 +1,13 @@
 import express from 'express';
-import Chat from '../models/Chat';
+import Chat, { MAX_PINNED_MESSAGES, pinnedMessagesPopulate } from '../models/Chat';
 import Message from '../models/Message';
 import User from '../models/User';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { getWebSocketManager } from '../websocket/websocket';
+import { getUnreadSummaries, markChatRead } from '../services/readService';
+import { applyParticipantsOnlineState } from '../services/presenceService';
+import { findHiddenLastMessageReplacements } from '../services/messageService';
+import { AppError } from '../utils/errors';
 
 const router = express.Router();
 
@@ -23,9 +28,20 @@ router.get('/', authenticate, async (req: AuthRequest, res) => {
       })
       .sort({ updatedAt: -1 });
 
+    const unread = await getUnreadSummaries(chats, req.user?.id);
+    const hiddenLastMessages = await findHiddenLastMessageReplacements(chats, req.user!.id);
+    await applyParticipantsOnlineState(chats);
+
     res.json({
       success: true,
-      data: { chats }
+      data: {
+        chats: chats.map(chat => ({
+          ...chat.toJSON(),
+          ...(hiddenLastMessages.has(chat.id) && { lastMessage: hiddenLastMessages.get(chat.id) }),
+          unreadCount: unread.get(chat.id)?.unreadCount || 0,
+          firstUnreadMessageId: unread.get(chat.id)?.firstUnreadMessageId || null
+        }))
+      }
     });
   } catch (error) {
     console.error('Get chats error:', error);
@@ -90,6 +106,12 @@ router.post('/', authenticate, async (req: AuthRequest, res) => {
       .populate('participants', 'username email avatar isOnline lastSeen')
       .populate('admin', 'username email avatar');
 
+    // Every participant's sessions add the chat, including the creator's other ones
+    getWebSocketManager()?.broadcastToChat(chat.id, {
+      type: 'chat_created',
+      payload: { chat: populatedChat, timestamp: new Date() }
+    });
+
     res.status(201).json({
       success: true,
       message: 'Chat created successfully',
@@ -121,6 +143,8 @@ router.get('/:id', authenticate, async (req: AuthRequest, res) => {
       });
     }
 
+    await applyParticipantsOnlineState([chat]);
+
     res.json({
       success: true,
       data: { chat }
@@ -166,9 +190,14 @@ router.put('/:id', authenticate, async (req: AuthRequest, res) => {
       });
     }
 
+    const previousIds = chat.participants.map(id => id.toString());
+    const nextIds: string[] = participantIds ? [...new Set<string>(participantIds.map(String))] : previousIds;
+    const addedIds = nextIds.filter(id => !previousIds.includes(id));
+    const removedIds = previousIds.filter(id => !nextIds.includes(id));
+
     const updateData: any = {};
     if (name) updateData.name = name;
-    if (participantIds) updateData.participants = [...new Set(participantIds)];
+    if (participantIds) updateData.participants = nextIds;
 
     const updatedChat = await Chat.findByIdAndUpdate(
       req.params.id,
@@ -176,7 +205,49 @@ router.put('/:id', authenticate, async (req: AuthRequest, res) => {
       { new: true, runValidators: true }
     )
       .populate('participants', 'username email avatar isOnline lastSeen')
-      .populate('admin', 'username email avatar');
+      .populate('admin', 'username email avatar')
+      .populate({
+        path: 'lastMessage',
+        populate: {
+          path: 'sender',
+          select: 'username avatar'
+        }
+      });
+
+    const manager = getWebSocketManager();
+    const actor = { chatId: req.params.id, userId: req.user!.id, username: req.user!.username };
+
+    if (participantIds) {
+      manager?.removeChatMembers(req.params.id, removedIds);
+    }
+
+    if (name) {
+      manager?.broadcastToChat(req.params.id, {
+        type: 'chat_updated',
+        payload: { ...actor, chat: updatedChat, timestamp: new Date() }
+      });
+    }
+
+    // Added members receive the whole chat so they can show it
+    if (addedIds.length > 0) {
+      manager?.broadcastToChat(req.params.id, {
+        type: 'member_added',
+        payload: { ...actor, userIds: addedIds, chat: updatedChat, timestamp: new Date() }
+      });
+    }
+
+    if (removedIds.length > 0) {
+      manager?.broadcastToChat(req.params.id, {
+        type: 'member_removed',
+        payload: { ...actor, userIds: removedIds, chat: updatedChat, timestamp: new Date() }
+      });
+
+      // No longer participants, so they are told directly and without the chat
+      removedIds.forEach(userId => manager?.sendToUser(userId, {
+        type: 'member_removed',
+        payload: { ...actor, userIds: removedIds, timestamp: new Date() }
+      }));
+    }
 
     res.json({
       success: true,
@@ -221,6 +292,20 @@ router.delete('/:id', authenticate, async (req: AuthRequest, res) => {
     // Delete the chat
     await Chat.findByIdAndDelete(chat._id);
 
+    const manager = getWebSocketManager();
+    const participantIds = chat.participants.map(id => id.toString());
+    manager?.removeChat(req.params.id, participantIds);
+
+    participantIds.forEach(userId => manager?.sendToUser(userId, {
+      type: 'chat_deleted',
+      payload: {
+        chatId: req.params.id,
+        userId: req.user!.id,
+        username: req.user!.username,
+        timestamp: new Date()
+      }
+    }));
+
     res.json({
       success: true,
       message: 'Chat deleted successfully'
@@ -234,4 +319,232 @@ router.delete('/:id', authenticate, async (req: AuthRequest, res) => {
   }
 });
 
+// Mark a chat read up to a message, or entirely when no message is given
+router.post('/:id/read', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const { messageId } = req.body;
+
+    const summary = await markChatRead(req.params.id, {
+      id: req.user!.id,
+      username: req.user!.username
+    }, messageId);
+
+    res.json({
+      success: true,
+      message: 'Chat marked as read',
+      data: summary
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    console.error('Mark chat as read error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Get pinned messages of a chat
+router.get('/:id/pins', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const chat = await Chat.findOne({
+      _id: req.params.id,
+      participants: req.user?._id
+    })
+      .select('pinnedMessages')
+      .populate(pinnedMessagesPopulate);
+
+    if (!chat) {
+      return res.status(404).json({
+        success: false,
+        message: 'Chat not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { pins: chat.pinnedMessages }
+    });
+  } catch (error) {
+    console.error('Get pinned messages error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Pin a message (only admin can pin in group chats)
+router.post('/:id/pins', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const { messageId } = req.body;
+
+    if (!messageId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Message ID is required'
+      });
+    }
+
+    const chat = await Chat.findOne({
+      _id: req.params.id,
+      participants: req.user?._id
+    });
+
+    if (!chat) {
+      return res.status(404).json({
+        success: false,
+        message: 'Chat not found'
+      });
+    }
+
+    if (chat.type === 'group' && chat.admin?.toString() !== req.user?.id) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only admin can pin messages in group chat'
+      });
+    }
+
+    const message = await Message.findOne({ _id: messageId, chat: chat._id });
+
+    if (!message || message.deletedAt) {
+      return res.status(404).json({
+        success: false,
+        message: 'Message not found'
+      });
+    }
+
+    if (chat.pinnedMessages.some(pin => pin.message.toString() === message.id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Message is already pinned'
+      });
+    }
+
+    if (chat.pinnedMessages.length >= MAX_PINNED_MESSAGES) {
+      return res.status(400).json({
+        success: false,
+        message: `A chat cannot have more than ${MAX_PINNED_MESSAGES} pinned messages`
+      });
+    }
+
+    // Guard against concurrent pins slipping past the checks above
+    const pinned = await Chat.updateOne(
+      {
+        _id: chat._id,
+        'pinnedMessages.message': { $ne: message._id },
+        [`pinnedMessages.${MAX_PINNED_MESSAGES - 1}`]: { $exists: false }
+      },
+      { $push: { pinnedMessages: { message: message._id, pinnedBy: req.user?._id, pinnedAt: new Date() } } }
+    );
+
+    if (pinned.modifiedCount === 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Pinned messages changed, please try again'
+      });
+    }
+
+    const updatedChat = await Chat.findById(chat._id)
+      .select('pinnedMessages')
+      .populate(pinnedMessagesPopulate);
+    const pins = updatedChat?.pinnedMessages || [];
+
+    getWebSocketManager()?.broadcastToChat(req.params.id, {
+      type: 'message_pinned',
+      payload: {
+        chatId: req.params.id,
+        messageId: message.id,
+        userId: req.user?.id,
+        username: req.user!.username,
+        pins,
+        timestamp: new Date()
+      }
+    });
+
+    res.json({
+      success: true,
+      message: 'Message pinned',
+      data: { pins }
+    });
+  } catch (error) {
+    console.error('Pin message error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Unpin a message (only admin can unpin in group chats)
+router.delete('/:id/pins/:messageId', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const chat = await Chat.findOne({
+      _id: req.params.id,
+      participants: req.user?._id
+    });
+
+    if (!chat) {
+      return res.status(404).json({
+        success: false,
+        message: 'Chat not found'
+      });
+    }
+
+    if (chat.type === 'group' && chat.admin?.toString() !== req.user?.id) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only admin can unpin messages in group chat'
+      });
+    }
+
+    const unpinned = await Chat.updateOne(
+      { _id: chat._id },
+      { $pull: { pinnedMessages: { message: req.params.messageId } } }
+    );
+
+    if (unpinned.modifiedCount === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Message is not pinned'
+      });
+    }
+
+    const updatedChat = await Chat.findById(chat._id)
+      .select('pinnedMessages')
+      .populate(pinnedMessagesPopulate);
+    const pins = updatedChat?.pinnedMessages || [];
+
+    getWebSocketManager()?.broadcastToChat(req.params.id, {
+      type: 'message_unpinned',
+      payload: {
+        chatId: req.params.id,
+        messageId: req.params.messageId,
+        userId: req.user?.id,
+        username: req.user!.username,
+        pins,
+        timestamp: new Date()
+      }
+    });
+
+    res.json({
+      success: true,
+      message: 'Message unpinned',
+      data: { pins }
+    });
+  } catch (error) {
+    console.error('Unpin message error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -1,18 +1,73 @@
 import express from 'express';
-import Message from '../models/Message';
-import Chat from '../models/Chat';
+import mongoose, { FilterQuery, Types } from 'mongoose';
+import Message, { IMessage, replyToPopulate } from '../models/Message';
+import Chat, { pinnedMessagesPopulate } from '../models/Chat';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { getWebSocketManager } from '../websocket/websocket';
+import { createMessage, findLastVisibleMessage } from '../services/messageService';
+import { AppError } from '../utils/errors';
+import { removeStoredFile } from '../middleware/upload';
+import { buildSnippet, getSearchTerms } from '../utils/search';
+import { markChatRead } from '../services/readService';
 
 const router = express.Router();
 
-// Get messages for a chat
+const MAX_PAGE_SIZE = 100;
+
+type MessageCursor = { id: Types.ObjectId; createdAt: Date };
+
+// One page of a chat's history on one side of a cursor, in chronological order.
+// Ties on createdAt are broken by _id so pages never skip or repeat messages.
+const findMessagesFrom = async (
+  filter: FilterQuery<IMessage>,
+  direction: 'before' | 'after',
+  cursor: MessageCursor | null,
+  limit: number,
+  inclusive = false
+) => {
+  const isBefore = direction === 'before';
+  const op = isBefore ? (inclusive ? '$lte' : '$lt') : (inclusive ? '$gte' : '$gt');
+  const sortOrder = isBefore ? -1 : 1;
+
+  const query = cursor
+    ? {
+      ...filter,
+      $or: [
+        { createdAt: { [isBefore ? '$lt' : '$gt']: cursor.createdAt } },
+        { createdAt: cursor.createdAt, _id: { [op]: cursor.id } }
+      ]
+    }
+    : filter;
+
+  // Fetch one extra message to learn whether there is more beyond this page
+  const messages = await Message.find(query)
+    .populate('sender', 'username avatar')
+    .populate(replyToPopulate)
+    .sort({ createdAt: sortOrder, _id: sortOrder })
+    .limit(limit + 1);
+
+  const hasMore = messages.length > limit;
+  const page = messages.slice(0, limit);
+
+  return { messages: isBefore ? page.reverse() : page, hasMore };
+};
+
+// Get messages for a chat. Without a cursor the latest page is returned;
+// `before`/`after` page from a message ID and `around` centers a window on one.
 router.get('/chat/:chatId', authenticate, async (req: AuthRequest, res) => {
   try {
     const { chatId } = req.params;
-    const { page = 1, limit = 50 } = req.query;
-    
-    const pageNum = parseInt(page as string);
-    const limitNum = parseInt(limit as string);
+    const { before, after, around, limit = 50 } = req.query;
+
+    const limitNum = Math.min(Math.max(parseInt(limit as string) || 50, 1), MAX_PAGE_SIZE);
+
+    const cursors = [before, after, around].filter(value => value !== undefined);
+    if (cursors.length > 1) {
+      return res.status(400).json({
+        success: false,
+        message: "Only one of 'before', 'after' or 'around' can be given"
+      });
+    }
 
     // Verify user is participant in the chat
     const chat = await Chat.findOne({
@@ -27,24 +82,59 @@ router.get('/chat/:chatId', authenticate, async (req: AuthRequest, res) => {
       });
     }
 
-    const messages = await Message.find({ chat: chatId })
-      .populate('sender', 'username avatar')
-      .sort({ createdAt: -1 })
-      .limit(limitNum)
-      .skip((pageNum - 1) * limitNum);
+    let cursor: MessageCursor | null = null;
+    if (cursors.length === 1) {
+      const cursorId = cursors[0];
+      const anchor = typeof cursorId === 'string' && mongoose.isValidObjectId(cursorId)
+        ? await Message.findOne({ _id: cursorId, chat: chatId }).select('createdAt')
+        : null;
+
+      if (!anchor) {
+        return res.status(400).json({
+          success: false,
+          message: 'Cursor message not found in this chat'
+        });
+      }
+
+      cursor = { id: anchor._id as Types.ObjectId, createdAt: anchor.createdAt };
+    }
 
-    const totalMessages = await Message.countDocuments({ chat: chatId });
-    const hasMore = totalMessages > pageNum * limitNum;
+    // Messages deleted for everyone come back as tombstones, ones hidden by the user are skipped
+    const filter: FilterQuery<IMessage> = { chat: chatId, hiddenFor: { $ne: req.user?._id } };
+
+    let messages;
+    let hasMoreBefore = false;
+    let hasMoreAfter = false;
+
+    if (around !== undefined) {
+      // The anchor message itself counts towards the older half
+      const [older, newer] = await Promise.all([
+        findMessagesFrom(filter, 'before', cursor, Math.ceil(limitNum / 2), true),
+        findMessagesFrom(filter, 'after', cursor, Math.floor(limitNum / 2))
+      ]);
+      messages = [...older.messages, ...newer.messages];
+      hasMoreBefore = older.hasMore;
+      hasMoreAfter = newer.hasMore;
+    } else if (after !== undefined) {
+      const page = await findMessagesFrom(filter, 'after', cursor, limitNum);
+      messages = page.messages;
+      hasMoreBefore = true;
+      hasMoreAfter = page.hasMore;
+    } else {
+      const page = await findMessagesFrom(filter, 'before', cursor, limitNum);
+      messages = page.messages;
+      hasMoreBefore = page.hasMore;
+      hasMoreAfter = before !== undefined;
+    }
 
     res.json({
       success: true,
       data: {
-        messages: messages.reverse(), // Reverse to get chronological order
+        messages,
         pagination: {
-          page: pageNum,
           limit: limitNum,
-          total: totalMessages,
-          hasMore
+          hasMoreBefore,
+          hasMoreAfter
         }
       }
     });
@@ -57,58 +147,127 @@ router.get('/chat/:chatId', authenticate, async (req: AuthRequest, res) => {
   }
 });
 
-// Send a message
-router.post('/', authenticate, async (req: AuthRequest, res) => {
+// Search messages across the user's chats
+router.get('/search', authenticate, async (req: AuthRequest, res) => {
   try {
-    const { chatId, content, messageType = 'text', fileUrl, fileName, fileSize } = req.body;
+    const { q, chatId, from, before, after, page = 1, limit = 20 } = req.query;
 
-    if (!chatId || !content) {
+    const query = typeof q === 'string' ? q.trim() : '';
+    if (!query) {
       return res.status(400).json({
         success: false,
-        message: 'Chat ID and content are required'
+        message: 'Search query is required'
       });
     }
 
-    // Verify user is participant in the chat
-    const chat = await Chat.findOne({
-      _id: chatId,
-      participants: req.user?._id
-    });
+    const pageNum = Math.max(parseInt(page as string) || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(limit as string) || 20, 1), 50);
 
-    if (!chat) {
+    for (const id of [chatId, from]) {
+      if (id !== undefined && (typeof id !== 'string' || !mongoose.isValidObjectId(id))) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid chat or user ID'
+        });
+      }
+    }
+
+    const createdAt: Record<string, Date> = {};
+    for (const [key, value] of [['$lt', before], ['$gt', after]] as const) {
+      if (value === undefined) continue;
+      const date = new Date(value as string);
+      if (isNaN(date.getTime())) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid date filter'
+        });
+      }
+      createdAt[key] = date;
+    }
+
+    // Only chats the user participates in are searched
+    const chats = await Chat.find({
+      participants: req.user?._id,
+      ...(chatId && { _id: chatId })
+    }).select('_id');
+
+    if (chatId && chats.length === 0) {
       return res.status(404).json({
         success: false,
         message: 'Chat not found'
       });
     }
 
-    // Create message
-    const message = new Message({
-      sender: req.user?._id,
-      chat: chatId,
-      content,
-      messageType,
-      ...(fileUrl && { fileUrl }),
-      ...(fileName && { fileName }),
-      ...(fileSize && { fileSize })
-    });
+    const filter = {
+      $text: { $search: query },
+      chat: { $in: chats.map(chat => chat._id) },
+      hiddenFor: { $ne: req.user?._id },
+      deletedAt: { $exists: false },
+      ...(from && { sender: from }),
+      ...(Object.keys(createdAt).length > 0 && { createdAt })
+    };
+
+    const [messages, total] = await Promise.all([
+      Message.find(filter)
+        .populate('sender', 'username avatar')
+        .sort({ createdAt: -1 })
+        .skip((pageNum - 1) * limitNum)
+        .limit(limitNum),
+      Message.countDocuments(filter)
+    ]);
+
+    const terms = getSearchTerms(query);
 
-    await message.save();
+    res.json({
+      success: true,
+      data: {
+        results: messages.map(message => ({
+          message,
+          snippet: buildSnippet(message.content, terms)
+        })),
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          hasMore: total > pageNum * limitNum
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Search messages error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
 
-    // Update chat's last message
-    chat.lastMessage = message._id;
-    await chat.save();
+// Send a text message; attachments are sent through POST /api/uploads
+router.post('/', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const { chatId, content, replyTo, clientMessageId } = req.body;
 
-    // Populate message
-    const populatedMessage = await Message.findById(message._id)
-      .populate('sender', 'username avatar');
+    const message = await createMessage({
+      senderId: req.user?.id,
+      chatId,
+      content,
+      replyTo,
+      clientMessageId
+    });
 
     res.status(201).json({
       success: true,
       message: 'Message sent successfully',
-      data: { message: populatedMessage }
+      data: { message }
     });
   } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+
     console.error('Send message error:', error);
     res.status(500).json({
       success: false,
@@ -131,7 +290,8 @@ router.put('/:id', authenticate, async (req: AuthRequest, res) => {
 
     const message = await Message.findOne({
       _id: req.params.id,
-      sender: req.user?._id
+      sender: req.user?._id,
+      deletedAt: { $exists: false }
     });
 
     if (!message) {
@@ -150,13 +310,33 @@ router.put('/:id', authenticate, async (req: AuthRequest, res) => {
       });
     }
 
-    message.content = content;
-    message.isEdited = true;
-    message.editedAt = new Date();
-    await message.save();
+    // Keep the version being replaced so the edit history stays complete
+    await Message.updateOne(
+      { _id: message._id },
+      {
+        $set: { content, isEdited: true, editedAt: new Date() },
+        $push: {
+          editHistory: {
+            content: message.content,
+            editedAt: message.editedAt || message.createdAt
+          }
+        }
+      },
+      { runValidators: true }
+    );
 
     const populatedMessage = await Message.findById(message._id)
-      .populate('sender', 'username avatar');
+      .populate('sender', 'username avatar')
+      .populate(replyToPopulate);
+
+    getWebSocketManager()?.broadcastToChat(message.chat.toString(), {
+      type: 'message_updated',
+      payload: {
+        message: populatedMessage,
+        chatId: message.chat.toString(),
+        timestamp: new Date()
+      }
+    });
 
     res.json({
       success: true,
@@ -172,26 +352,179 @@ router.put('/:id', authenticate, async (req: AuthRequest, res) => {
   }
 });
 
-// Delete message
-router.delete('/:id', authenticate, async (req: AuthRequest, res) => {
+// Get edit history of a message
+router.get('/:id/history', authenticate, async (req: AuthRequest, res) => {
   try {
-    const message = await Message.findOne({
-      _id: req.params.id,
-      sender: req.user?._id
+    const message = await Message.findById(req.params.id).select('+editHistory');
+
+    if (!message) {
+      return res.status(404).json({
+        success: false,
+        message: 'Message not found'
+      });
+    }
+
+    // Check if user is participant in the chat
+    const chat = await Chat.findOne({
+      _id: message.chat,
+      participants: req.user?._id
+    });
+
+    if (!chat) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to view this message'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        revisions: message.editHistory,
+        current: {
+          content: message.content,
+          editedAt: message.editedAt || message.createdAt
+        }
+      }
     });
+  } catch (error) {
+    console.error('Get message history error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Delete message, either only for the requesting user or for everyone
+router.delete('/:id', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const { scope = 'everyone' } = req.query;
+
+    if (scope !== 'me' && scope !== 'everyone') {
+      return res.status(400).json({
+        success: false,
+        message: "Scope must be 'me' or 'everyone'"
+      });
+    }
+
+    const message = await Message.findById(req.params.id).select('+storedFile');
 
     if (!message) {
       return res.status(404).json({
         success: false,
-        message: 'Message not found or not authorized'
+        message: 'Message not found'
+      });
+    }
+
+    // Check if user is participant in the chat
+    const chat = await Chat.findOne({
+      _id: message.chat,
+      participants: req.user?._id
+    });
+
+    if (!chat) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to delete this message'
+      });
+    }
+
+    if (scope === 'me') {
+      await Message.updateOne(
+        { _id: message._id },
+        { $addToSet: { hiddenFor: req.user?._id } }
+      );
+
+      // The chat list previews the newest message the user can still see
+      const lastMessage = chat.lastMessage?.equals(message._id as Types.ObjectId)
+        ? await findLastVisibleMessage(chat.id, req.user!.id)
+        : undefined;
+
+      // Hide it in the user's other sessions as well
+      getWebSocketManager()?.sendToUser(req.user?.id, {
+        type: 'message_hidden',
+        payload: {
+          messageId: message.id,
+          chatId: message.chat.toString(),
+          lastMessage,
+          timestamp: new Date()
+        }
+      });
+
+      return res.json({
+        success: true,
+        message: 'Message deleted for you',
+        data: { lastMessage }
+      });
+    }
+
+    if (message.sender.toString() !== req.user?.id) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only the sender can delete a message for everyone'
       });
     }
 
-    await Message.findByIdAndDelete(req.params.id);
+    if (message.deletedAt) {
+      return res.status(400).json({
+        success: false,
+        message: 'Message is already deleted'
+      });
+    }
+
+    // Keep a tombstone so replies, read state and history stay consistent
+    await Message.updateOne(
+      { _id: message._id },
+      {
+        $set: { content: '', messageType: 'text', deletedAt: new Date(), reactions: [], editHistory: [] },
+        $unset: { fileUrl: 1, fileName: 1, fileSize: 1, storedFile: 1 }
+      }
+    );
+    removeStoredFile(message.storedFile);
+
+    // A deleted message can no longer be pinned
+    const unpinned = await Chat.updateOne(
+      { _id: message.chat },
+      { $pull: { pinnedMessages: { message: message._id } } }
+    );
+
+    if (unpinned.modifiedCount > 0) {
+      const updatedChat = await Chat.findById(message.chat)
+        .select('pinnedMessages')
+        .populate(pinnedMessagesPopulate);
+
+      getWebSocketManager()?.broadcastToChat(message.chat.toString(), {
+        type: 'message_unpinned',
+        payload: {
+          chatId: message.chat.toString(),
+          messageId: message.id,
+          userId: req.user?.id,
+          username: req.user!.username,
+          pins: updatedChat?.pinnedMessages || [],
+          timestamp: new Date()
+        }
+      });
+    }
+
+    const tombstone = await Message.findById(message._id)
+      .populate('sender', 'username avatar')
+      .populate(replyToPopulate);
+
+    getWebSocketManager()?.broadcastToChat(message.chat.toString(), {
+      type: 'message_deleted',
+      payload: {
+        messageId: message.id,
+        chatId: message.chat.toString(),
+        message: tombstone,
+        timestamp: new Date()
+      }
+    });
 
     res.json({
       success: true,
-      message: 'Message deleted successfully'
+      message: 'Message deleted for everyone',
+      data: { message: tombstone }
     });
   } catch (error) {
     console.error('Delete message error:', error);
@@ -214,6 +547,54 @@ router.post('/:id/read', authenticate, async (req: AuthRequest, res) => {
       });
     }
 
+    // Reading a message reads everything before it as well
+    const summary = await markChatRead(message.chat.toString(), {
+      id: req.user!.id,
+      username: req.user!.username
+    }, message.id);
+
+    res.json({
+      success: true,
+      message: 'Message marked as read',
+      data: summary
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    console.error('Mark message as read error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Add a reaction to a message
+router.post('/:id/reactions', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const { emoji } = req.body;
+
+    if (!emoji || typeof emoji !== 'string' || emoji.length > 16) {
+      return res.status(400).json({
+        success: false,
+        message: 'A valid emoji is required'
+      });
+    }
+
+    const message = await Message.findById(req.params.id);
+
+    if (!message) {
+      return res.status(404).json({
+        success: false,
+        message: 'Message not found'
+      });
+    }
+
     // Check if user is participant in the chat
     const chat = await Chat.findOne({
       _id: message.chat,
@@ -223,29 +604,121 @@ router.post('/:id/read', authenticate, async (req: AuthRequest, res) => {
     if (!chat) {
       return res.status(403).json({
         success: false,
-        message: 'Not authorized to read this message'
+        message: 'Not authorized to react to this message'
       });
     }
 
-    // Check if already read by this user
-    const alreadyRead = message.readBy.some(
-      receipt => receipt.user.toString() === req.user?._id.toString()
+    if (message.deletedAt) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cannot react to a deleted message'
+      });
+    }
+
+    // Join an existing reaction, or start a new one if nobody used this emoji yet
+    const joined = await Message.updateOne(
+      { _id: message._id, 'reactions.emoji': emoji },
+      { $addToSet: { 'reactions.$.users': req.user?._id } }
     );
 
-    if (!alreadyRead) {
-      message.readBy.push({
-        user: req.user!._id,
-        readAt: new Date()
+    if (joined.matchedCount === 0) {
+      await Message.updateOne(
+        { _id: message._id, 'reactions.emoji': { $ne: emoji } },
+        { $push: { reactions: { emoji, users: [req.user?._id] } } }
+      );
+    }
+
+    const updatedMessage = await Message.findById(message._id).select('reactions');
+    const reactions = updatedMessage?.reactions || [];
+
+    getWebSocketManager()?.broadcastToChat(message.chat.toString(), {
+      type: 'reaction_added',
+      payload: {
+        messageId: message.id,
+        chatId: message.chat.toString(),
+        emoji,
+        userId: req.user?.id,
+        username: req.user!.username,
+        reactions,
+        timestamp: new Date()
+      }
+    });
+
+    res.json({
+      success: true,
+      message: 'Reaction added',
+      data: { reactions }
+    });
+  } catch (error) {
+    console.error('Add reaction error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Remove a reaction from a message
+router.delete('/:id/reactions/:emoji', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const { emoji } = req.params;
+
+    const message = await Message.findById(req.params.id);
+
+    if (!message) {
+      return res.status(404).json({
+        success: false,
+        message: 'Message not found'
       });
-      await message.save();
     }
 
+    // Check if user is participant in the chat
+    const chat = await Chat.findOne({
+      _id: message.chat,
+      participants: req.user?._id
+    });
+
+    if (!chat) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to react to this message'
+      });
+    }
+
+    await Message.updateOne(
+      { _id: message._id, 'reactions.emoji': emoji },
+      { $pull: { 'reactions.$.users': req.user?._id } }
+    );
+
+    // Drop reactions nobody is using anymore
+    await Message.updateOne(
+      { _id: message._id },
+      { $pull: { reactions: { users: { $size: 0 } } } }
+    );
+
+    const updatedMessage = await Message.findById(message._id).select('reactions');
+    const reactions = updatedMessage?.reactions || [];
+
+    getWebSocketManager()?.broadcastToChat(message.chat.toString(), {
+      type: 'reaction_removed',
+      payload: {
+        messageId: message.id,
+        chatId: message.chat.toString(),
+        emoji,
+        userId: req.user?.id,
+        username: req.user!.username,
+        reactions,
+        timestamp: new Date()
+      }
+    });
+
     res.json({
       success: true,
-      message: 'Message marked as read'
+      message: 'Reaction removed',
+      data: { reactions }
     });
   } catch (error) {
-    console.error('Mark message as read error:', error);
+    console.error('Remove reaction error:', error);
     res.status(500).json({
       success: false,
       message: 'Internal server error'
@@ -0,0 +1,58 @@
+import express from 'express';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { uploadSingleFile, getMessageTypeForMime, removeUploadedFile } from '../middleware/upload';
+import { createMessage } from '../services/messageService';
+import { AppError } from '../utils/errors';
+
+const router = express.Router();
+
+// Upload an attachment and create the message that carries it
+router.post('/', authenticate, uploadSingleFile, async (req: AuthRequest, res) => {
+  const file = req.file;
+
+  try {
+    const { chatId, content } = req.body;
+
+    if (!file) {
+      return res.status(400).json({
+        success: false,
+        message: 'File is required'
+      });
+    }
+
+    // Falls back to the file name when no caption is given
+    const message = await createMessage({
+      senderId: req.user?.id,
+      chatId,
+      content: content?.trim() || file.originalname,
+      messageType: getMessageTypeForMime(file.mimetype),
+      fileUrl: `/uploads/${file.filename}`,
+      fileName: file.originalname,
+      fileSize: file.size,
+      storedFile: file.filename
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'File uploaded successfully',
+      data: { message }
+    });
+  } catch (error) {
+    removeUploadedFile(file);
+
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+
+    console.error('Upload file error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+export default router;
@@ -1,6 +1,7 @@
 import express from 'express';
 import User from '../models/User';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { applyOnlineState } from '../services/presenceService';
 
 const router = express.Router();
 
@@ -9,7 +10,11 @@ router.get('/', authenticate, async (req: AuthRequest, res) => {
   try {
     const users = await User.find({ _id: { $ne: req.user?._id } })
       .select('username email avatar isOnline lastSeen createdAt')
-      .sort({ isOnline: -1, username: 1 });
+      .sort({ username: 1 });
+
+    // Online users first; the sort is stable, so each group stays ordered by username
+    await applyOnlineState(users);
+    users.sort((a, b) => Number(b.isOnline) - Number(a.isOnline));
 
     res.json({
       success: true,
@@ -37,6 +42,8 @@ router.get('/:id', authenticate, async (req, res) => {
       });
     }
 
+    await applyOnlineState([user]);
+
     res.json({
       success: true,
       data: { user }
@@ -0,0 +1,69 @@
+import dotenv from 'dotenv';
+import mongoose, { Types } from 'mongoose';
+import { connectDB } from '../utils/database';
+import Chat, { IReadPointer } from '../models/Chat';
+import Message from '../models/Message';
+
+dotenv.config();
+
+interface LegacyReceipt {
+  user: Types.ObjectId;
+  readAt: Date;
+}
+
+// Converts the old per-message `readBy` receipts into one read pointer per chat member,
+// pointing at the newest message they have a receipt for or sent themselves, then drops
+// `readBy` from all messages. Pointers that are already further ahead are kept, so the
+// migration can be run again safely.
+const migrateReadPointers = async () => {
+  await connectDB();
+
+  // `readBy` is no longer part of the schema, so read it through the raw collection
+  const messages = Message.collection;
+  const chats = await Chat.find().select('participants readPointers');
+  let migratedChats = 0;
+
+  for (const chat of chats) {
+    const pointers: IReadPointer[] = [];
+
+    for (const userId of chat.participants) {
+      const existing = chat.readPointers.find(pointer => pointer.user.equals(userId));
+      const latest = await messages
+        .find({ chat: chat._id, $or: [{ 'readBy.user': userId }, { sender: userId }] })
+        .sort({ createdAt: -1, _id: -1 })
+        .limit(1)
+        .next();
+
+      if (!latest || (existing && existing.lastReadMessageAt >= latest.createdAt)) {
+        if (existing) pointers.push(existing);
+        continue;
+      }
+
+      const receipt = (latest.readBy as LegacyReceipt[] | undefined)?.find(r => userId.equals(r.user));
+      pointers.push({
+        user: userId,
+        lastReadMessage: latest._id,
+        lastReadMessageAt: latest.createdAt,
+        readAt: receipt?.readAt || latest.createdAt
+      });
+    }
+
+    await Chat.updateOne({ _id: chat._id }, { $set: { readPointers: pointers } });
+    migratedChats++;
+  }
+
+  const { modifiedCount } = await messages.updateMany(
+    { readBy: { $exists: true } },
+    { $unset: { readBy: '' } }
+  );
+
+  console.log(`✅ Migrated read state of ${migratedChats} chats, removed receipts from ${modifiedCount} messages`);
+};
+
+migrateReadPointers()
+  .then(() => mongoose.disconnect())
+  .catch(async (error) => {
+    console.error('❌ Read pointer migration failed:', error);
+    await mongoose.disconnect();
+    process.exit(1);
+  });
@@ -4,19 +4,22 @@ import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
-import path from 'path';
-import { connectDB } from './utils/database';
-import { setupWebSocket } from './websocket/websocket';
+import { connectDB, disconnectDB } from './utils/database';
+import { getWebSocketManager, setupWebSocket } from './websocket/websocket';
+import { getUploadDir, setUploadHeaders } from './middleware/upload';
 import authRoutes from './routes/auth';
 import userRoutes from './routes/users';
 import chatRoutes from './routes/chats';
 import messageRoutes from './routes/messages';
+import uploadRoutes from './routes/uploads';
 
 dotenv.config();
 
 const app = express();
 const server = http.createServer(app);
 const PORT = process.env.PORT || 5000;
+// Exit anyway if draining connections takes longer than this
+const SHUTDOWN_TIMEOUT_MS = 15000;
 
 // Security middleware
 app.use(helmet({
@@ -44,7 +47,7 @@ app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Static file serving
-app.use('/uploads', express.static(path.join(__dirname, '../uploads')));
+app.use('/uploads', express.static(getUploadDir(), { setHeaders: setUploadHeaders }));
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -60,6 +63,7 @@ app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/chats', chatRoutes);
 app.use('/api/messages', messageRoutes);
+app.use('/api/uploads', uploadRoutes);
 
 // Error handling middleware
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -109,7 +113,7 @@ const startServer = async () => {
     console.log('✅ Connected to MongoDB');
 
     // Setup WebSocket
-    setupWebSocket(server);
+    await setupWebSocket(server);
     console.log('✅ WebSocket server initialized');
 
     // Start server
@@ -124,22 +128,39 @@ const startServer = async () => {
   }
 };
 
-// Graceful shutdown
-process.on('SIGTERM', () => {
-  console.log('SIGTERM received, shutting down gracefully');
-  server.close(() => {
-    console.log('Server closed');
-    process.exit(0);
-  });
-});
+// Graceful shutdown: stop accepting connections, drain WebSocket clients and take their
+// users offline, wait for HTTP requests in flight, then close the database connection
+let isShuttingDown = false;
+
+const shutdown = async (signal: string) => {
+  if (isShuttingDown) return;
+  isShuttingDown = true;
+  console.log(`${signal} received, shutting down gracefully`);
+
+  const forceExit = setTimeout(() => {
+    console.error('❌ Shutdown timed out, forcing exit');
+    process.exit(1);
+  }, SHUTDOWN_TIMEOUT_MS);
+  forceExit.unref();
+
+  try {
+    const serverClosed = new Promise<void>(resolve => server.close(() => resolve()));
+    server.closeIdleConnections();
 
-process.on('SIGINT', () => {
-  console.log('SIGINT received, shutting down gracefully');
-  server.close(() => {
+    await getWebSocketManager()?.shutdown();
+    await serverClosed;
     console.log('Server closed');
+
+    await disconnectDB();
     process.exit(0);
-  });
-});
+  } catch (error) {
+    console.error('❌ Error during shutdown:', error);
+    process.exit(1);
+  }
+};
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
 
 startServer();
 
@@ -0,0 +1,145 @@
+import { Types } from 'mongoose';
+import Message, { CLIENT_MESSAGE_ID_MAX_LENGTH, IMessage, replyToPopulate } from '../models/Message';
+import Chat, { IChat } from '../models/Chat';
+import { getWebSocketManager } from '../websocket/websocket';
+import { AppError } from '../utils/errors';
+
+export interface CreateMessageInput {
+  senderId: string;
+  chatId: string;
+  content: string;
+  // Attachment fields are only ever set by the upload route, never taken from clients
+  messageType?: 'text' | 'image' | 'file';
+  fileUrl?: string;
+  fileName?: string;
+  fileSize?: number;
+  storedFile?: string;
+  replyTo?: string;
+  clientMessageId?: string;
+}
+
+const populateMessage = (messageId: unknown) => Message.findById(messageId)
+  .populate('sender', 'username avatar')
+  .populate(replyToPopulate);
+
+// The message a sender already stored under a client id, if this send is a retry
+const findRetriedMessage = async (senderId: string, chatId: string, clientMessageId: string) => {
+  const existing = await Message.findOne({ sender: senderId, clientMessageId }).select('chat');
+  if (!existing) return null;
+
+  if (existing.chat.toString() !== chatId) {
+    throw new AppError('Client message ID was already used in another chat', 409);
+  }
+
+  return populateMessage(existing._id);
+};
+
+const isDuplicateKeyError = (error: unknown) =>
+  typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+
+// Single entry point for creating messages, whether they arrive over REST,
+// as an upload or over the WebSocket. Persists the message, updates the
+// chat's last message and broadcasts `new_message` to every participant.
+// Sends carrying a `clientMessageId` are idempotent per sender: a retry returns
+// the message stored the first time without creating or broadcasting it again.
+export const createMessage = async (input: CreateMessageInput) => {
+  const {
+    senderId, chatId, content, messageType = 'text', fileUrl, fileName, fileSize, storedFile, replyTo, clientMessageId
+  } = input;
+
+  if (!chatId || !content) {
+    throw new AppError('Chat ID and content are required', 400);
+  }
+
+  if (clientMessageId !== undefined && (
+    typeof clientMessageId !== 'string' || !clientMessageId || clientMessageId.length > CLIENT_MESSAGE_ID_MAX_LENGTH
+  )) {
+    throw new AppError('Invalid client message ID', 400);
+  }
+
+  if (clientMessageId) {
+    const retried = await findRetriedMessage(senderId, chatId, clientMessageId);
+    if (retried) return retried;
+  }
+
+  // Verify user is participant in the chat
+  const chat = await Chat.findOne({
+    _id: chatId,
+    participants: senderId
+  });
+
+  if (!chat) {
+    throw new AppError('Chat not found', 404);
+  }
+
+  // Quoted message must belong to the same chat
+  if (replyTo && !(await Message.exists({ _id: replyTo, chat: chatId }))) {
+    throw new AppError('Replied message not found in this chat', 400);
+  }
+
+  const message = new Message({
+    sender: senderId,
+    chat: chatId,
+    content,
+    messageType,
+    ...(fileUrl && { fileUrl }),
+    ...(fileName && { fileName }),
+    ...(fileSize && { fileSize }),
+    ...(storedFile && { storedFile }),
+    ...(replyTo && { replyTo }),
+    ...(clientMessageId && { clientMessageId })
+  });
+
+  try {
+    await message.save();
+  } catch (error) {
+    // A concurrent retry stored it first
+    if (clientMessageId && isDuplicateKeyError(error)) {
+      const retried = await findRetriedMessage(senderId, chatId, clientMessageId);
+      if (retried) return retried;
+    }
+    throw error;
+  }
+
+  // Update chat's last message
+  chat.lastMessage = message._id as Types.ObjectId;
+  await chat.save();
+
+  const populatedMessage = await populateMessage(message._id);
+
+  getWebSocketManager()?.broadcastToChat(chatId, {
+    type: 'new_message',
+    payload: {
+      message: populatedMessage,
+      chatId,
+      timestamp: new Date()
+    }
+  });
+
+  return populatedMessage;
+};
+
+// Newest message of the chat the user has not deleted for themselves, the one their chat list
+// previews in place of a hidden last message
+export const findLastVisibleMessage = (chatId: string, userId: string) =>
+  Message.findOne({ chat: chatId, hiddenFor: { $ne: userId } })
+    .sort({ createdAt: -1, _id: -1 })
+    .populate('sender', 'username avatar');
+
+// The previews of the given chats whose last message the user has hidden, keyed by chat id
+// (null when nothing visible is left). Expects lastMessage to be populated.
+export const findHiddenLastMessageReplacements = async (chats: IChat[], userId: string) => {
+  const replacements = new Map<string, Awaited<ReturnType<typeof findLastVisibleMessage>>>();
+  const lastMessageIds = chats
+    .map(chat => (chat.lastMessage as unknown as IMessage | undefined)?._id)
+    .filter(Boolean);
+
+  const hidden = await Message.find({ _id: { $in: lastMessageIds }, hiddenFor: userId }).select('chat');
+
+  await Promise.all(hidden.map(async message => {
+    const chatId = message.chat.toString();
+    replacements.set(chatId, await findLastVisibleMessage(chatId, userId));
+  }));
+
+  return replacements;
+};
@@ -0,0 +1,19 @@
+import { IChat } from '../models/Chat';
+import { IUser } from '../models/User';
+import { getWebSocketManager } from '../websocket/websocket';
+
+// Overrides the persisted isOnline flag with the state of the users' live WebSocket sessions.
+// The flag is only written on connect and disconnect and can be stale after a crash.
+export const applyOnlineState = async (users: IUser[]): Promise<void> => {
+  const manager = getWebSocketManager();
+  if (!manager || users.length === 0) return;
+
+  const online = await manager.getOnlineUsers(users.map(user => String(user._id)));
+  users.forEach(user => {
+    user.isOnline = online.has(String(user._id));
+  });
+};
+
+// For chats whose participants are populated
+export const applyParticipantsOnlineState = (chats: IChat[]) =>
+  applyOnlineState(chats.flatMap(chat => chat.participants as unknown as IUser[]));
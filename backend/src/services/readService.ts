@@ -0,0 +1,235 @@
+import { Types } from 'mongoose';
+import Message from '../models/Message';
+import Chat, { IChat, IDeliveryPointer, IReadPointer } from '../models/Chat';
+import { getWebSocketManager } from '../websocket/websocket';
+import { AppError } from '../utils/errors';
+
+export interface UnreadSummary {
+  unreadCount: number;
+  firstUnreadMessageId: string | null;
+}
+
+interface Reader {
+  id: string;
+  username: string;
+}
+
+// Messages after a read position, in (createdAt, _id) order
+const afterPosition = (messageAt: Date, messageId: Types.ObjectId) => ({
+  $or: [
+    { createdAt: { $gt: messageAt } },
+    { createdAt: messageAt, _id: { $gt: messageId } }
+  ]
+});
+
+// Messages from other participants the user has not read, hidden or seen deleted
+const unreadFilter = (chat: IChat, userId: Types.ObjectId) => {
+  const pointer = chat.readPointers.find(p => p.user.equals(userId));
+
+  return {
+    chat: chat._id,
+    sender: { $ne: userId },
+    hiddenFor: { $ne: userId },
+    deletedAt: { $exists: false },
+    ...(pointer && afterPosition(pointer.lastReadMessageAt, pointer.lastReadMessage))
+  };
+};
+
+// Unread count and oldest unread message for each of the given chats
+export const getUnreadSummaries = async (chats: IChat[], userId: string) => {
+  const summaries = new Map<string, UnreadSummary>();
+  if (chats.length === 0) return summaries;
+
+  const userObjectId = new Types.ObjectId(userId);
+
+  const rows = await Message.aggregate<{ _id: Types.ObjectId; unreadCount: number; firstUnreadMessageId: Types.ObjectId }>([
+    { $match: { $or: chats.map(chat => unreadFilter(chat, userObjectId)) } },
+    { $sort: { createdAt: 1, _id: 1 } },
+    {
+      $group: {
+        _id: '$chat',
+        unreadCount: { $sum: 1 },
+        firstUnreadMessageId: { $first: '$_id' }
+      }
+    }
+  ]);
+
+  rows.forEach(row => {
+    summaries.set(row._id.toString(), {
+      unreadCount: row.unreadCount,
+      firstUnreadMessageId: row.firstUnreadMessageId.toString()
+    });
+  });
+
+  return summaries;
+};
+
+type PointerField = 'readPointers' | 'deliveryPointers';
+
+const pointerKeys = {
+  readPointers: { message: 'lastReadMessage', messageAt: 'lastReadMessageAt' },
+  deliveryPointers: { message: 'lastDeliveredMessage', messageAt: 'lastDeliveredMessageAt' }
+};
+
+const findChatMessage = async (chatId: string, messageId: string) => {
+  const message = Types.ObjectId.isValid(messageId)
+    ? await Message.findOne({ _id: messageId, chat: chatId }).select('createdAt')
+    : null;
+
+  if (!message) {
+    throw new AppError('Message not found in this chat', 400);
+  }
+
+  return { id: message._id as Types.ObjectId, createdAt: message.createdAt };
+};
+
+// Moves the user's entry in one of the chat's pointer arrays forward to `messageId`.
+// Pointers never move back, so receipts arriving out of order are harmless.
+// Returns whether the pointer moved.
+const advancePointer = async (
+  chatId: string,
+  field: PointerField,
+  pointer: IReadPointer | IDeliveryPointer,
+  messageId: Types.ObjectId,
+  messageAt: Date
+) => {
+  const keys = pointerKeys[field];
+
+  const moved = await Chat.updateOne(
+    {
+      _id: chatId,
+      [field]: {
+        $elemMatch: {
+          user: pointer.user,
+          $or: [
+            { [keys.messageAt]: { $lt: messageAt } },
+            { [keys.messageAt]: messageAt, [keys.message]: { $lt: messageId } }
+          ]
+        }
+      }
+    },
+    { $set: { [`${field}.$`]: pointer } }
+  );
+
+  if (moved.modifiedCount > 0) return true;
+
+  // First pointer of this kind for the user in this chat
+  const created = await Chat.updateOne(
+    { _id: chatId, [`${field}.user`]: { $ne: pointer.user } },
+    { $push: { [field]: pointer } }
+  );
+
+  return created.modifiedCount > 0;
+};
+
+const advanceReadPointer = async (chatId: string, userId: string, messageId: string) => {
+  const message = await findChatMessage(chatId, messageId);
+  const now = new Date();
+  const user = new Types.ObjectId(userId);
+
+  const pointer: IReadPointer = {
+    user,
+    lastReadMessage: message.id,
+    lastReadMessageAt: message.createdAt,
+    readAt: now
+  };
+
+  // Having read a message implies it reached the client
+  await advancePointer(chatId, 'deliveryPointers', {
+    user,
+    lastDeliveredMessage: message.id,
+    lastDeliveredMessageAt: message.createdAt,
+    deliveredAt: now
+  }, message.id, message.createdAt);
+
+  const moved = await advancePointer(chatId, 'readPointers', pointer, message.id, message.createdAt);
+  return moved ? pointer : null;
+};
+
+// Records that the recipient's client acknowledged `messageId` and everything before it.
+// Other participants who have the chat open get a `message_delivered` receipt when the pointer moves.
+export const markDelivered = async (chatId: string, recipient: Reader, messageId: string) => {
+  if (!(await Chat.exists({ _id: chatId, participants: recipient.id }))) {
+    throw new AppError('Chat not found', 404);
+  }
+
+  const message = await findChatMessage(chatId, messageId);
+  const pointer: IDeliveryPointer = {
+    user: new Types.ObjectId(recipient.id),
+    lastDeliveredMessage: message.id,
+    lastDeliveredMessageAt: message.createdAt,
+    deliveredAt: new Date()
+  };
+
+  if (!(await advancePointer(chatId, 'deliveryPointers', pointer, message.id, message.createdAt))) {
+    return null;
+  }
+
+  // Like read receipts, only sent to members looking at the chat; room_joined carries the pointers
+  getWebSocketManager()?.broadcastToRoom(chatId, {
+    type: 'message_delivered',
+    payload: {
+      chatId,
+      messageId: pointer.lastDeliveredMessage.toString(),
+      userId: recipient.id,
+      username: recipient.username,
+      lastDeliveredMessageAt: pointer.lastDeliveredMessageAt,
+      deliveredAt: pointer.deliveredAt,
+      timestamp: new Date()
+    }
+  }, recipient.id);
+
+  return pointer;
+};
+
+// Marks the chat read up to and including `upToMessageId`, or up to its newest message.
+// Other participants get a `message_read` receipt and the reader's sessions a `chat_read` update.
+export const markChatRead = async (chatId: string, reader: Reader, upToMessageId?: string) => {
+  const chat = await Chat.findOne({ _id: chatId, participants: reader.id });
+
+  if (!chat) {
+    throw new AppError('Chat not found', 404);
+  }
+
+  let messageId = upToMessageId;
+  if (!messageId) {
+    const latest = await Message.findOne({ chat: chatId }).sort({ createdAt: -1, _id: -1 }).select('_id');
+    messageId = latest?.id;
+  }
+
+  const pointer = messageId ? await advanceReadPointer(chatId, reader.id, messageId) : null;
+  const manager = getWebSocketManager();
+
+  // Receipts only matter to members looking at the chat; others get them on joining
+  if (pointer) {
+    manager?.broadcastToRoom(chatId, {
+      type: 'message_read',
+      payload: {
+        chatId,
+        messageId: pointer.lastReadMessage.toString(),
+        userId: reader.id,
+        username: reader.username,
+        lastReadMessageAt: pointer.lastReadMessageAt,
+        readAt: pointer.readAt,
+        timestamp: new Date()
+      }
+    }, reader.id);
+  }
+
+  const updatedChat = pointer ? await Chat.findById(chatId) : chat;
+  const summary = (updatedChat && (await getUnreadSummaries([updatedChat], reader.id)).get(chatId))
+    || { unreadCount: 0, firstUnreadMessageId: null };
+
+  // Keep badges in sync in the reader's other sessions
+  manager?.sendToUser(reader.id, {
+    type: 'chat_read',
+    payload: {
+      chatId,
+      messageId: messageId || null,
+      ...summary,
+      timestamp: new Date()
+    }
+  });
+
+  return summary;
+};
@@ -0,0 +1,31 @@
+import { createHash, randomBytes } from 'crypto';
+import WsTicket from '../models/WsTicket';
+
+export const WS_TICKET_TTL_SECONDS = 30;
+
+const hashTicket = (ticket: string) => createHash('sha256').update(ticket).digest('hex');
+
+// Issues a ticket the user can open one WebSocket connection with in the next few seconds
+export const issueWsTicket = async (userId: string, authExpiresAt?: Date) => {
+  const ticket = randomBytes(32).toString('base64url');
+
+  await WsTicket.create({
+    ticketHash: hashTicket(ticket),
+    user: userId,
+    authExpiresAt,
+    expiresAt: new Date(Date.now() + WS_TICKET_TTL_SECONDS * 1000)
+  });
+
+  return ticket;
+};
+
+// Consumes a ticket, so it cannot be used twice. Returns null for unknown or expired tickets;
+// expired ones are checked explicitly because MongoDB removes them only periodically.
+export const redeemWsTicket = async (ticket: string) => {
+  const redeemed = await WsTicket.findOneAndDelete({
+    ticketHash: hashTicket(ticket),
+    expiresAt: { $gt: new Date() }
+  });
+
+  return redeemed ? { userId: redeemed.user.toString(), authExpiresAt: redeemed.authExpiresAt } : null;
+};
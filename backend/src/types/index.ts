@@ -8,6 +8,11 @@ export interface User {
   createdAt: Date;
 }
 
+export interface Reaction {
+  emoji: string;
+  users: string[];
+}
+
 export interface Message {
   _id: string;
   sender: string | User;
@@ -19,15 +24,25 @@ export interface Message {
   fileSize?: number;
   isEdited: boolean;
   editedAt?: Date;
-  readBy: ReadReceipt[];
+  reactions: Reaction[];
+  clientMessageId?: string;
   createdAt: Date;
 }
 
-export interface ReadReceipt {
+export interface ReadPointer {
   user: string;
+  lastReadMessage: string;
+  lastReadMessageAt: Date;
   readAt: Date;
 }
 
+export interface DeliveryPointer {
+  user: string;
+  lastDeliveredMessage: string;
+  lastDeliveredMessageAt: Date;
+  deliveredAt: Date;
+}
+
 export interface Chat {
   _id: string;
   name?: string;
@@ -35,17 +50,12 @@ export interface Chat {
   participants: (string | User)[];
   admin?: string | User;
   lastMessage?: Message;
+  readPointers: ReadPointer[];
+  deliveryPointers: DeliveryPointer[];
   createdAt: Date;
   updatedAt: Date;
 }
 
-export interface WebSocketMessage {
-  type: 'message' | 'typing_start' | 'typing_stop' | 'user_online' | 'user_offline' | 'message_read';
-  payload: any;
-  chatId?: string;
-  userId?: string;
-}
-
 export interface AuthRequest extends Request {
   user?: User;
 }
@@ -57,9 +67,10 @@ export interface TypingUser {
   timestamp: number;
 }
 
-export interface ConnectedUser {
-  userId: string;
-  username: string;
-  socketId: string;
+export interface ConnectedSession {
+  sessionId: string;
+  connectedAt: Date;
   lastSeen: Date;
+  userAgent?: string;
+  ip?: string;
 }
\ No newline at end of file
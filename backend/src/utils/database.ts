@@ -31,6 +31,20 @@ export const connectDB = async (): Promise<void> => {
   }
 };
 
+// Closes the connection, giving up after timeoutMs so shutdown cannot hang on it
+export const disconnectDB = async (timeoutMs = 5000): Promise<void> => {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`MongoDB did not close within ${timeoutMs}ms`)), timeoutMs);
+  });
+
+  try {
+    await Promise.race([mongoose.connection.close(), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
 // Connection event listeners
 mongoose.connection.on('connected', () => {
   console.log('🟢 Mongoose connected to MongoDB');
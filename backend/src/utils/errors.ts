@@ -0,0 +1,11 @@
+// Error carrying the HTTP status that should be reported to the client.
+// The global error handler in server.ts reads `statusCode` as well.
+export class AppError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 500) {
+    super(message);
+    this.name = 'AppError';
+    this.statusCode = statusCode;
+  }
+}
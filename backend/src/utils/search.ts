@@ -0,0 +1,59 @@
+export interface SearchSnippet {
+  text: string;
+  // [start, end) offsets into `text` of the matched terms
+  highlights: [number, number][];
+}
+
+const SNIPPET_CONTEXT = 60;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Words of a search query, ignoring negated terms since they never appear in results
+export const getSearchTerms = (query: string): string[] => {
+  const terms = query
+    .split(/\s+/)
+    .filter(word => word && !word.startsWith('-'))
+    .map(word => word.replace(/["']/g, ''))
+    .filter(Boolean);
+
+  return [...new Set(terms.map(term => term.toLowerCase()))];
+};
+
+// Cuts the part of `content` around the first match and marks every match in it.
+// Matching is done on word prefixes, as the text index also matches stemmed forms.
+export const buildSnippet = (content: string, terms: string[]): SearchSnippet => {
+  if (terms.length === 0) {
+    return { text: content.substring(0, SNIPPET_CONTEXT * 2), highlights: [] };
+  }
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${terms.map(escapeRegExp).join('|')})`, 'giu');
+  const matches = [...content.matchAll(pattern)].map(match => [
+    match.index as number,
+    (match.index as number) + match[0].length
+  ] as [number, number]);
+
+  const firstMatch = matches[0] ?? [0, 0];
+  let start = Math.max(0, firstMatch[0] - SNIPPET_CONTEXT);
+  let end = Math.min(content.length, firstMatch[1] + SNIPPET_CONTEXT);
+
+  // Avoid cutting words in half
+  if (start > 0) {
+    const space = content.indexOf(' ', start);
+    if (space !== -1 && space < firstMatch[0]) start = space + 1;
+  }
+  if (end < content.length) {
+    const space = content.lastIndexOf(' ', end);
+    if (space > firstMatch[1]) end = space;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < content.length ? '…' : '';
+  const offset = prefix.length - start;
+
+  return {
+    text: `${prefix}${content.substring(start, end)}${suffix}`,
+    highlights: matches
+      .filter(([matchStart, matchEnd]) => matchStart >= start && matchEnd <= end)
+      .map(([matchStart, matchEnd]) => [matchStart + offset, matchEnd + offset] as [number, number])
+  };
+};
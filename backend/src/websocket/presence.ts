@@ -0,0 +1,102 @@
+import PresenceSession, { PRESENCE_SESSION_TTL_SECONDS } from '../models/PresenceSession';
+import { isClustered } from './pubsub';
+
+// Which users have open sessions, across every server instance
+export interface PresenceRegistry {
+  // Registers a session and returns how many sessions the user now has
+  addSession(userId: string, sessionId: string): Promise<number>;
+  // Unregisters a session and returns how many sessions the user still has
+  removeSession(userId: string, sessionId: string): Promise<number>;
+  // Unregisters many sessions at once, e.g. all of an instance that shuts down
+  removeSessions(sessionIds: string[]): Promise<void>;
+  countSessions(userId: string): Promise<number>;
+  // The given users that have at least one session
+  getOnlineUsers(userIds: string[]): Promise<Set<string>>;
+  // Keeps this instance's sessions registered; those of an instance that stops refreshing expire
+  refresh(sessionIds: string[]): Promise<void>;
+}
+
+export class MemoryPresenceRegistry implements PresenceRegistry {
+  private sessions = new Map<string, Set<string>>();
+
+  async addSession(userId: string, sessionId: string): Promise<number> {
+    const userSessions = this.sessions.get(userId) || new Set<string>();
+    userSessions.add(sessionId);
+    this.sessions.set(userId, userSessions);
+    return userSessions.size;
+  }
+
+  async removeSession(userId: string, sessionId: string): Promise<number> {
+    const userSessions = this.sessions.get(userId);
+    userSessions?.delete(sessionId);
+
+    if (!userSessions || userSessions.size === 0) {
+      this.sessions.delete(userId);
+      return 0;
+    }
+    return userSessions.size;
+  }
+
+  async removeSessions(sessionIds: string[]): Promise<void> {
+    const removed = new Set(sessionIds);
+
+    this.sessions.forEach((userSessions, userId) => {
+      removed.forEach(sessionId => userSessions.delete(sessionId));
+      if (userSessions.size === 0) {
+        this.sessions.delete(userId);
+      }
+    });
+  }
+
+  async countSessions(userId: string): Promise<number> {
+    return this.sessions.get(userId)?.size || 0;
+  }
+
+  async getOnlineUsers(userIds: string[]): Promise<Set<string>> {
+    return new Set(userIds.filter(userId => this.sessions.has(userId)));
+  }
+
+  async refresh(): Promise<void> {
+    // Sessions live exactly as long as the process holding them
+  }
+}
+
+// Sessions refreshed by a heartbeat within the TTL. MongoDB deletes expired documents only
+// about once a minute, so reads filter on lastSeen instead of relying on the TTL index alone.
+const liveSessions = () => ({
+  lastSeen: { $gt: new Date(Date.now() - PRESENCE_SESSION_TTL_SECONDS * 1000) }
+});
+
+export class MongoPresenceRegistry implements PresenceRegistry {
+  async addSession(userId: string, sessionId: string): Promise<number> {
+    await PresenceSession.create({ sessionId, user: userId, lastSeen: new Date() });
+    return this.countSessions(userId);
+  }
+
+  async removeSession(userId: string, sessionId: string): Promise<number> {
+    await PresenceSession.deleteOne({ sessionId });
+    return this.countSessions(userId);
+  }
+
+  async removeSessions(sessionIds: string[]): Promise<void> {
+    if (sessionIds.length === 0) return;
+    await PresenceSession.deleteMany({ sessionId: { $in: sessionIds } });
+  }
+
+  async countSessions(userId: string): Promise<number> {
+    return PresenceSession.countDocuments({ user: userId, ...liveSessions() });
+  }
+
+  async getOnlineUsers(userIds: string[]): Promise<Set<string>> {
+    const online = await PresenceSession.distinct('user', { user: { $in: userIds }, ...liveSessions() });
+    return new Set(online.map(id => id.toString()));
+  }
+
+  async refresh(sessionIds: string[]): Promise<void> {
+    if (sessionIds.length === 0) return;
+    await PresenceSession.updateMany({ sessionId: { $in: sessionIds } }, { lastSeen: new Date() });
+  }
+}
+
+export const createPresenceRegistry = (): PresenceRegistry =>
+  isClustered() ? new MongoPresenceRegistry() : new MemoryPresenceRegistry();
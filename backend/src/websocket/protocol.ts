@@ -0,0 +1,301 @@
+import { Types } from 'mongoose';
+
+// Version 2 adds request ids, validated payloads and structured errors. Clients select it
+// by requesting the `chat.v2` WebSocket subprotocol; the frontend mirrors the client events
+// and error codes in src/types/index.ts.
+export const PROTOCOL_VERSION = 2;
+export const SUPPORTED_PROTOCOL_VERSIONS = [2];
+
+const PROTOCOL_PREFIX = 'chat.v';
+const MAX_REQUEST_ID_LENGTH = 64;
+
+export const protocolName = (version: number) => `${PROTOCOL_PREFIX}${version}`;
+
+export const parseProtocolVersion = (protocol: string): number | null => {
+  if (!protocol.startsWith(PROTOCOL_PREFIX)) return null;
+
+  const version = Number(protocol.slice(PROTOCOL_PREFIX.length));
+  return SUPPORTED_PROTOCOL_VERSIONS.includes(version) ? version : null;
+};
+
+// Picks the newest supported version among the subprotocols offered by a client
+export const negotiateProtocol = (offered: Set<string>): string | false => {
+  const version = [...SUPPORTED_PROTOCOL_VERSIONS]
+    .sort((a, b) => b - a)
+    .find(supported => offered.has(protocolName(supported)));
+
+  return version ? protocolName(version) : false;
+};
+
+// Client → server events
+
+export interface ClientEventPayloads {
+  join_room: { chatId: string };
+  leave_room: { chatId: string };
+  // Text only; attachments are sent through POST /api/uploads
+  send_message: {
+    chatId: string;
+    content: string;
+    replyTo?: string;
+    clientMessageId?: string;
+  };
+  typing_start: { chatId: string };
+  typing_stop: { chatId: string };
+  message_read: { chatId: string; messageId?: string };
+  message_delivered: { chatId: string; messageId: string };
+  resume: { epoch: string; chats: Record<string, number> };
+  reauthenticate: { token: string };
+}
+
+export type ClientEventType = keyof ClientEventPayloads;
+
+export type ClientEvent = {
+  [K in ClientEventType]: {
+    v?: number;
+    // Echoed in error replies so clients can tell which request failed
+    id?: string;
+    type: K;
+    payload: ClientEventPayloads[K];
+  }
+}[ClientEventType];
+
+// Server → client events
+
+interface Timestamped {
+  timestamp: Date;
+}
+
+interface MessageEventPayload extends Timestamped {
+  chatId: string;
+  message: unknown;
+}
+
+interface ActorPayload extends Timestamped {
+  chatId: string;
+  userId: string;
+  username: string;
+}
+
+interface ReactionPayload extends ActorPayload {
+  messageId: string;
+  emoji: string;
+  reactions: unknown[];
+}
+
+interface PinsPayload extends ActorPayload {
+  messageId: string;
+  pins: unknown[];
+}
+
+interface ChatPayload extends Timestamped {
+  chat: unknown;
+}
+
+interface MembersPayload extends ActorPayload {
+  // Users who joined or left; members who were removed receive the event without `chat`
+  userIds: string[];
+  chat?: unknown;
+}
+
+interface PresencePayload extends Timestamped {
+  userId: string;
+  username: string;
+}
+
+export type ProtocolErrorCode =
+  | 'invalid_json'
+  | 'invalid_message'
+  | 'unknown_type'
+  | 'invalid_payload'
+  | 'unsupported_version'
+  | 'bad_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'internal_error';
+
+export interface ServerEventPayloads {
+  connection: Timestamped & {
+    message: string;
+    protocolVersion: number;
+    userId: string;
+    sessionId: string;
+    authExpiresAt?: Date;
+    epoch: string;
+    sequences: Record<string, number>;
+    onlineUsers: string[];
+  };
+  error: Timestamped & {
+    code: ProtocolErrorCode;
+    message: string;
+    requestId?: string;
+    details?: string[];
+    clientMessageId?: string;
+  };
+  reauthenticated: Timestamped & { authExpiresAt?: Date };
+  room_joined: Timestamped & { chatId: string; readPointers: unknown[]; deliveryPointers: unknown[] };
+  room_left: Timestamped & { chatId: string };
+  new_message: MessageEventPayload;
+  message_ack: MessageEventPayload & { clientMessageId?: string; messageId?: string };
+  message_updated: MessageEventPayload;
+  message_deleted: MessageEventPayload & { messageId: string };
+  // lastMessage is set when the hidden message was the chat's last one, null if none is left
+  message_hidden: Timestamped & { chatId: string; messageId: string; lastMessage?: unknown };
+  reaction_added: ReactionPayload;
+  reaction_removed: ReactionPayload;
+  message_pinned: PinsPayload;
+  message_unpinned: PinsPayload;
+  message_read: ActorPayload & { messageId: string; lastReadMessageAt: Date; readAt: Date };
+  message_delivered: ActorPayload & { messageId: string; lastDeliveredMessageAt: Date; deliveredAt: Date };
+  chat_read: Timestamped & {
+    chatId: string;
+    messageId: string | null;
+    unreadCount: number;
+    firstUnreadMessageId: string | null;
+  };
+  chat_created: ChatPayload;
+  chat_updated: ChatPayload & { userId: string; username: string };
+  member_added: MembersPayload;
+  member_removed: MembersPayload;
+  chat_deleted: ActorPayload;
+  typing_start: ActorPayload;
+  typing_stop: ActorPayload;
+  user_online: PresencePayload;
+  user_offline: PresencePayload;
+  resync_required: Timestamped & { chats: { chatId: string; seq: number }[] };
+}
+
+export type ServerEventType = keyof ServerEventPayloads;
+
+export type ServerEvent = {
+  [K in ServerEventType]: {
+    type: K;
+    payload: ServerEventPayloads[K];
+    chatId?: string;
+    // Position in the chat's event stream, set on events that can be replayed
+    seq?: number;
+  }
+}[ServerEventType];
+
+export class ProtocolError extends Error {
+  constructor(
+    public code: ProtocolErrorCode,
+    message: string,
+    public requestId?: string,
+    public details?: string[]
+  ) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+export const errorCodeForStatus = (statusCode: number): ProtocolErrorCode => {
+  switch (statusCode) {
+    case 401:
+      return 'unauthorized';
+    case 403:
+      return 'forbidden';
+    case 404:
+      return 'not_found';
+    case 409:
+      return 'conflict';
+    default:
+      return statusCode < 500 ? 'bad_request' : 'internal_error';
+  }
+};
+
+// Payload validation. Each validator returns the problems it found, empty when valid.
+
+type Payload = Record<string, unknown>;
+type FieldCheck = (payload: Payload, field: string) => string | null;
+
+const objectId = (required: boolean): FieldCheck => (payload, field) => {
+  const value = payload[field];
+  if (value === undefined) return required ? `${field} is required` : null;
+  return typeof value === 'string' && Types.ObjectId.isValid(value) ? null : `${field} must be a valid id`;
+};
+
+const string = (required: boolean, maxLength?: number): FieldCheck => (payload, field) => {
+  const value = payload[field];
+  if (value === undefined) return required ? `${field} is required` : null;
+  if (typeof value !== 'string' || (required && !value)) return `${field} must be a non-empty string`;
+  return maxLength && value.length > maxLength ? `${field} cannot exceed ${maxLength} characters` : null;
+};
+
+const sequenceMap: FieldCheck = (payload, field) => {
+  const value = payload[field];
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return `${field} must be an object`;
+
+  const invalid = Object.entries(value).find(([chatId, seq]) =>
+    !Types.ObjectId.isValid(chatId) || typeof seq !== 'number' || !Number.isInteger(seq) || seq < 0
+  );
+  return invalid ? `${field} must map chat ids to sequence numbers` : null;
+};
+
+const fields = (checks: Record<string, FieldCheck>) => (payload: Payload) =>
+  Object.entries(checks)
+    .map(([field, check]) => check(payload, field))
+    .filter((problem): problem is string => problem !== null);
+
+const chatOnly = fields({ chatId: objectId(true) });
+
+const validators: { [K in ClientEventType]: (payload: Payload) => string[] } = {
+  join_room: chatOnly,
+  leave_room: chatOnly,
+  send_message: fields({
+    chatId: objectId(true),
+    content: string(true, 2000),
+    replyTo: objectId(false),
+    clientMessageId: string(false, 64)
+  }),
+  typing_start: chatOnly,
+  typing_stop: chatOnly,
+  message_read: fields({ chatId: objectId(true), messageId: objectId(false) }),
+  message_delivered: fields({ chatId: objectId(true), messageId: objectId(true) }),
+  resume: fields({ epoch: string(true), chats: sequenceMap }),
+  reauthenticate: fields({ token: string(true) })
+};
+
+const isClientEventType = (type: string): type is ClientEventType =>
+  Object.prototype.hasOwnProperty.call(validators, type);
+
+// Parses and validates a raw client frame against the negotiated protocol version
+export const parseClientEvent = (data: string, version: number): ClientEvent => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch {
+    throw new ProtocolError('invalid_json', 'Message is not valid JSON');
+  }
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ProtocolError('invalid_message', 'Message must be a JSON object');
+  }
+
+  const { v, id, type, payload } = raw as Payload;
+  const requestId = typeof id === 'string' && id.length <= MAX_REQUEST_ID_LENGTH ? id : undefined;
+
+  if (id !== undefined && requestId === undefined) {
+    throw new ProtocolError('invalid_message', `id must be a string of at most ${MAX_REQUEST_ID_LENGTH} characters`);
+  }
+
+  if (v !== undefined && v !== version) {
+    throw new ProtocolError('unsupported_version', `This connection uses protocol version ${version}`, requestId);
+  }
+
+  if (typeof type !== 'string' || !isClientEventType(type)) {
+    throw new ProtocolError('unknown_type', `Unknown message type: ${String(type)}`, requestId);
+  }
+
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    throw new ProtocolError('invalid_payload', 'payload must be an object', requestId);
+  }
+
+  const problems = validators[type](payload as Payload);
+  if (problems.length > 0) {
+    throw new ProtocolError('invalid_payload', `Invalid ${type} payload`, requestId, problems);
+  }
+
+  return { v: version, id: requestId, type, payload } as ClientEvent;
+};
@@ -0,0 +1,143 @@
+import BusEvent from '../models/BusEvent';
+import { ServerEvent } from './protocol';
+
+// Deliveries WebSocketManager fans out through the bus. Every instance, the publishing one
+// included, receives each message and handles it for the sockets it holds.
+export type BusMessage =
+  | { kind: 'users'; userIds: string[]; event: ServerEvent }
+  | { kind: 'chat'; chatId: string; event: ServerEvent; excludeUserId?: string }
+  | { kind: 'room'; chatId: string; event: ServerEvent; excludeUserId?: string }
+  | { kind: 'remove_members'; chatId: string; userIds: string[] }
+  | { kind: 'remove_chat'; chatId: string; userIds: string[] };
+
+export type BusHandler = (message: BusMessage) => void;
+// Called when messages may have been lost, so subscribers can resynchronise their state
+export type BusGapHandler = () => void;
+
+export interface PubSub {
+  publish(message: BusMessage): Promise<void>;
+  subscribe(handler: BusHandler, onGap: BusGapHandler): Promise<void>;
+  close(): Promise<void>;
+}
+
+// Single instance: messages are handed straight to the subscribers
+export class MemoryPubSub implements PubSub {
+  private handlers: BusHandler[] = [];
+
+  async publish(message: BusMessage): Promise<void> {
+    this.handlers.forEach(handler => handler(message));
+  }
+
+  async subscribe(handler: BusHandler): Promise<void> {
+    // Messages are handed over synchronously, so none can be lost
+    this.handlers.push(handler);
+  }
+
+  async close(): Promise<void> {
+    this.handlers = [];
+  }
+}
+
+const REOPEN_BASE_DELAY_MS = 1000;
+const REOPEN_MAX_DELAY_MS = 30000;
+
+// Resume tokens that no longer point into the oplog, e.g. after a long outage
+const RESUME_TOKEN_LOST_CODES = [
+  260, // InvalidResumeToken
+  280, // ChangeStreamFatalError
+  286 // ChangeStreamHistoryLost
+];
+
+const isResumeTokenLost = (error: unknown) =>
+  RESUME_TOKEN_LOST_CODES.includes((error as { code?: number }).code ?? -1);
+
+// Several instances: messages are inserted into the bus collection and picked up through a
+// change stream, which requires MongoDB to run as a replica set (a single node is enough).
+// The driver resumes the stream by itself after transient errors; errors it gives up on
+// (elections it cannot ride out, invalidated cursors) reopen the stream after the last
+// message seen, with backoff. When that is no longer possible, the stream is reopened from
+// the present and subscribers are told about the gap.
+export class MongoPubSub implements PubSub {
+  private stream?: ReturnType<typeof BusEvent.watch>;
+  private handler?: BusHandler;
+  private onGap?: BusGapHandler;
+  private resumeToken?: unknown;
+  private reopenDelay = REOPEN_BASE_DELAY_MS;
+  private reopenTimer?: NodeJS.Timeout;
+  private isClosed = false;
+  private isSubscribed = false;
+
+  async publish(message: BusMessage): Promise<void> {
+    await BusEvent.create({ message: JSON.stringify(message) });
+  }
+
+  // Resolves once the change stream is open, so every message published from then on is
+  // received. Fails if it cannot be opened; later failures are recovered from by reopening.
+  async subscribe(handler: BusHandler, onGap: BusGapHandler): Promise<void> {
+    this.handler = handler;
+    this.onGap = onGap;
+    await this.openStream();
+    this.isSubscribed = true;
+  }
+
+  // The stream's first resume token arrives with the response that opened its cursor
+  private openStream(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const stream = BusEvent.watch(
+        [{ $match: { operationType: 'insert' } }],
+        this.resumeToken ? { resumeAfter: this.resumeToken } : {}
+      );
+      this.stream = stream;
+
+      stream.once('resumeTokenChanged', () => {
+        this.reopenDelay = REOPEN_BASE_DELAY_MS;
+        resolve();
+      });
+
+      stream.on('change', (change: { _id: unknown; fullDocument: { message: string } }) => {
+        this.resumeToken = change._id;
+        this.handler?.(JSON.parse(change.fullDocument.message));
+      });
+
+      stream.on('error', (error) => {
+        reject(error);
+        this.handleStreamError(stream, error);
+      });
+    });
+  }
+
+  private handleStreamError(stream: ReturnType<typeof BusEvent.watch>, error: unknown): void {
+    console.error('Pub/sub change stream error:', error);
+    stream.close().catch(() => undefined);
+
+    // A stream reports its failure once; later errors of the same stream are ignored. Before
+    // subscribe has resolved, the error is left to its caller.
+    if (this.isClosed || !this.isSubscribed || this.stream !== stream) return;
+    this.stream = undefined;
+
+    const hasGap = !this.resumeToken || isResumeTokenLost(error);
+    if (hasGap) {
+      this.resumeToken = undefined;
+    }
+
+    this.reopenTimer = setTimeout(() => {
+      console.log(`🔄 Reopening pub/sub change stream${hasGap ? ' without resume point' : ''}`);
+      this.openStream()
+        .then(() => hasGap && this.onGap?.())
+        // The failed attempt already scheduled the next one
+        .catch(() => undefined);
+    }, this.reopenDelay);
+    this.reopenDelay = Math.min(this.reopenDelay * 2, REOPEN_MAX_DELAY_MS);
+  }
+
+  async close(): Promise<void> {
+    this.isClosed = true;
+    clearTimeout(this.reopenTimer);
+    await this.stream?.close();
+  }
+}
+
+// WS_CLUSTER=mongo is needed as soon as more than one backend instance serves WebSockets
+export const isClustered = () => process.env.WS_CLUSTER === 'mongo';
+
+export const createPubSub = (): PubSub => (isClustered() ? new MongoPubSub() : new MemoryPubSub());
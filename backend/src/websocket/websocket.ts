@@ -1,78 +1,172 @@
 import { Server } from 'http';
+import { randomUUID } from 'crypto';
 import WebSocket from 'ws';
-import jwt from 'jsonwebtoken';
+import { Types } from 'mongoose';
 import User from '../models/User';
 import Chat from '../models/Chat';
-import Message from '../models/Message';
-import { ConnectedUser, TypingUser, WebSocketMessage } from '../types';
+import { ConnectedSession, TypingUser } from '../types';
+import { createMessage } from '../services/messageService';
+import { markChatRead, markDelivered } from '../services/readService';
+import { redeemWsTicket } from '../services/ticketService';
+import { verifyToken } from '../middleware/auth';
+import { AppError } from '../utils/errors';
+import {
+  ClientEvent,
+  ClientEventPayloads,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  ServerEvent,
+  errorCodeForStatus,
+  negotiateProtocol,
+  parseClientEvent,
+  parseProtocolVersion
+} from './protocol';
+import { BusMessage, PubSub, createPubSub } from './pubsub';
+import { PresenceRegistry, createPresenceRegistry } from './presence';
+
+// Chat events kept for replay to clients that reconnect after missing them
+const REPLAY_BUFFER_SIZE = 100;
+// Buffers of chats without events for this long are dropped; their clients resync instead
+const REPLAY_IDLE_MS = 10 * 60 * 1000;
+// Standard "service restart" close code; clients reconnect shortly instead of backing off
+const SERVICE_RESTART_CLOSE_CODE = 1012;
+// How often persisted online flags are checked against live sessions
+const PRESENCE_RECONCILE_INTERVAL_MS = 60000;
+
+interface ReplayEntry {
+  seq: number;
+  message: ServerEvent;
+  excludeUserId?: string;
+  recordedAt: number;
+}
 
 interface ExtendedWebSocket extends WebSocket {
   userId?: string;
   username?: string;
   isAlive?: boolean;
+  session?: ConnectedSession;
+  // Negotiated through the WebSocket subprotocol during the handshake
+  protocolVersion?: number;
+  // Expiry of the credentials the socket was opened or last re-authenticated with
+  authExpiresAt?: Date;
+  // Chats this socket is currently viewing
+  rooms?: Set<string>;
 }
 
+// Deliveries go through the pub/sub bus so that every server instance reaches the sockets it
+// holds, and online state is kept in the shared presence registry. Connection, room, typing
+// and replay state stay local to the instance holding the socket; clients that reconnect to
+// another instance see a different epoch and resync.
 class WebSocketManager {
   private wss: WebSocket.Server;
-  private connectedUsers = new Map<string, ExtendedWebSocket>();
+  // Published one at a time so other instances receive this instance's events in order
+  private publishQueue: Promise<void> = Promise.resolve();
+  // Every open socket on this instance of each user; a user stays online until their last
+  // session on any instance closes
+  private connectedUsers = new Map<string, Set<ExtendedWebSocket>>();
   private typingUsers = new Map<string, TypingUser>();
-
-  constructor(server: Server) {
+  // Participant ids per chat, dropped by removeChatMembers and removeChat whenever membership changes
+  private chatParticipants = new Map<string, Set<string>>();
+  // Sequence numbers restart with the server, so clients also compare the epoch
+  private readonly epoch = randomUUID();
+  private chatSequences = new Map<string, number>();
+  private replayBuffers = new Map<string, ReplayEntry[]>();
+  private heartbeatInterval?: NodeJS.Timeout;
+  private reconcileInterval?: NodeJS.Timeout;
+  private isShuttingDown = false;
+
+  constructor(server: Server, private pubsub: PubSub, private presence: PresenceRegistry) {
     this.wss = new WebSocket.Server({ 
       server,
-      path: '/ws'
+      path: '/ws',
+      handleProtocols: negotiateProtocol
     });
+  }
+
+  public async start(): Promise<void> {
+    await this.pubsub.subscribe(
+      message => this.handleBusMessage(message),
+      () => this.handleBusGap()
+    );
 
     this.setupWebSocket();
     this.setupHeartbeat();
+    await this.setupPresenceReconciliation();
   }
 
   private setupWebSocket(): void {
     this.wss.on('connection', async (ws: ExtendedWebSocket, req) => {
+      if (this.isShuttingDown) {
+        ws.close(SERVICE_RESTART_CLOSE_CODE, 'Server restarting');
+        return;
+      }
+
       try {
-        // Extract token from query parameters or headers
+        const protocolVersion = parseProtocolVersion(ws.protocol);
+        if (!protocolVersion) {
+          ws.close(4004, `Unsupported protocol version, expected chat.v${PROTOCOL_VERSION}`);
+          return;
+        }
+
+        // Tickets are single-use and expire within seconds, so unlike JWTs they are safe in the URL
         const url = new URL(req.url!, `http://${req.headers.host}`);
-        const token = url.searchParams.get('token') || req.headers.authorization?.split(' ')[1];
+        const ticket = url.searchParams.get('ticket');
 
-        if (!token) {
-          ws.close(4001, 'Unauthorized: No token provided');
+        if (!ticket) {
+          ws.close(4001, 'Unauthorized: No ticket provided');
           return;
         }
 
-        // Verify JWT token
-        const decoded = jwt.verify(token, process.env.JWT_SECRET!) as { userId: string };
-        const user = await User.findById(decoded.userId);
+        const redeemed = await redeemWsTicket(ticket);
+        const user = redeemed && await User.findById(redeemed.userId);
 
-        if (!user) {
-          ws.close(4002, 'Unauthorized: Invalid token');
+        if (!redeemed || !user) {
+          ws.close(4002, 'Unauthorized: Invalid or expired ticket');
           return;
         }
 
         // Setup WebSocket connection
-        ws.userId = user._id.toString();
+        const userId = user._id.toString();
+        ws.userId = userId;
         ws.username = user.username;
         ws.isAlive = true;
-
-        // Store connection
-        this.connectedUsers.set(user._id.toString(), ws);
+        ws.protocolVersion = protocolVersion;
+        ws.authExpiresAt = redeemed.authExpiresAt;
+        ws.rooms = new Set();
+        ws.session = {
+          sessionId: randomUUID(),
+          connectedAt: new Date(),
+          lastSeen: new Date(),
+          userAgent: req.headers['user-agent'],
+          ip: req.socket.remoteAddress
+        };
+
+        // Store connection alongside the user's other sessions
+        const sessions = this.connectedUsers.get(userId) || new Set<ExtendedWebSocket>();
+        sessions.add(ws);
+        this.connectedUsers.set(userId, sessions);
+        const sessionCount = await this.presence.addSession(userId, ws.session.sessionId);
 
         // Update user online status
-        user.isOnline = true;
-        user.lastSeen = new Date();
-        await user.save();
-
-        console.log(`🟢 User ${user.username} connected via WebSocket`);
-
-        // Broadcast user online status
-        this.broadcastToUserChats(user._id.toString(), {
-          type: 'user_online',
-          payload: {
-            userId: user._id.toString(),
-            username: user.username,
-            timestamp: new Date()
-          }
+        await User.findByIdAndUpdate(userId, {
+          isOnline: true,
+          lastSeen: new Date()
         });
 
+        console.log(`🟢 User ${user.username} connected via WebSocket (${sessionCount} session(s))`);
+
+        // Other sessions already announced the user
+        if (sessionCount === 1) {
+          this.broadcastToUserChats(userId, {
+            type: 'user_online',
+            payload: {
+              userId,
+              username: user.username,
+              timestamp: new Date()
+            }
+          });
+        }
+
         // Handle incoming messages
         ws.on('message', (data: WebSocket.Data) => {
           this.handleMessage(ws, data);
@@ -83,6 +177,12 @@ class WebSocketManager {
           await this.handleDisconnection(ws);
         });
 
+        // The socket may have closed while the user's status was being written
+        if (ws.readyState !== WebSocket.OPEN) {
+          await this.handleDisconnection(ws);
+          return;
+        }
+
         // Handle connection errors
         ws.on('error', (error) => {
           console.error('WebSocket error:', error);
@@ -91,14 +191,41 @@ class WebSocketManager {
         // Setup ping/pong for connection health
         ws.on('pong', () => {
           ws.isAlive = true;
+          ws.session!.lastSeen = new Date();
         });
 
-        // Send welcome message
+        // Snapshot of the user's contacts that are online and of where each chat's event stream is
+        const chats = await Chat.find({ participants: userId }).select('participants');
+        const contacts = new Set<string>();
+        const sequences: Record<string, number> = {};
+
+        chats.forEach(chat => {
+          const participants = chat.participants.map(id => id.toString());
+          this.chatParticipants.set(chat.id, new Set(participants));
+          sequences[chat.id] = this.chatSequences.get(chat.id) || 0;
+
+          participants.forEach(participantId => {
+            if (participantId !== userId) {
+              contacts.add(participantId);
+            }
+          });
+        });
+
+        const onlineUsers = await this.presence.getOnlineUsers(Array.from(contacts));
+
+        // Send welcome message. Messages sent before this one arrives are not handled,
+        // so clients rejoin rooms and resume only after receiving it.
         this.sendToClient(ws, {
           type: 'connection',
           payload: {
             message: 'Connected successfully',
-            userId: user._id.toString(),
+            protocolVersion,
+            userId,
+            sessionId: ws.session.sessionId,
+            authExpiresAt: ws.authExpiresAt,
+            epoch: this.epoch,
+            sequences,
+            onlineUsers: Array.from(onlineUsers),
             timestamp: new Date()
           }
         });
@@ -111,75 +238,116 @@ class WebSocketManager {
   }
 
   private async handleMessage(ws: ExtendedWebSocket, data: WebSocket.Data): Promise<void> {
+    if (ws.session) {
+      ws.session.lastSeen = new Date();
+    }
+
+    let event: ClientEvent | undefined;
+
     try {
-      const message: WebSocketMessage = JSON.parse(data.toString());
+      event = parseClientEvent(data.toString(), ws.protocolVersion!);
 
-      switch (message.type) {
+      switch (event.type) {
         case 'join_room':
-          await this.handleJoinRoom(ws, message);
+          await this.handleJoinRoom(ws, event.payload);
           break;
 
         case 'leave_room':
-          await this.handleLeaveRoom(ws, message);
+          await this.handleLeaveRoom(ws, event.payload);
           break;
 
         case 'send_message':
-          await this.handleSendMessage(ws, message);
+          await this.handleSendMessage(ws, event.payload);
           break;
 
         case 'typing_start':
-          await this.handleTypingStart(ws, message);
+          await this.handleTypingStart(ws, event.payload);
           break;
 
         case 'typing_stop':
-          await this.handleTypingStop(ws, message);
+          await this.handleTypingStop(ws, event.payload);
           break;
 
         case 'message_read':
-          await this.handleMessageRead(ws, message);
+          await this.handleMessageRead(ws, event.payload);
+          break;
+
+        case 'message_delivered':
+          await this.handleMessageDelivered(ws, event.payload);
+          break;
+
+        case 'resume':
+          await this.handleResume(ws, event.payload);
           break;
 
-        default:
-          console.log('Unknown message type:', message.type);
+        case 'reauthenticate':
+          await this.handleReauthenticate(ws, event.payload);
+          break;
       }
     } catch (error) {
-      console.error('Error handling WebSocket message:', error);
-      this.sendToClient(ws, {
-        type: 'error',
-        payload: {
-          message: 'Error processing message',
-          timestamp: new Date()
-        }
-      });
+      const requestId = event?.id;
+      let protocolError: ProtocolError;
+
+      if (error instanceof ProtocolError) {
+        protocolError = error;
+        protocolError.requestId = protocolError.requestId ?? requestId;
+      } else if (error instanceof AppError && error.statusCode < 500) {
+        protocolError = new ProtocolError(errorCodeForStatus(error.statusCode), error.message, requestId);
+      } else {
+        console.error('Error handling WebSocket message:', error);
+        protocolError = new ProtocolError('internal_error', 'Error processing message', requestId);
+      }
+
+      // Lets clients match a failed send to the pending message it belongs to
+      const clientMessageId = event?.type === 'send_message' ? event.payload.clientMessageId : undefined;
+      this.sendError(ws, protocolError, clientMessageId);
     }
   }
 
-  private async handleJoinRoom(ws: ExtendedWebSocket, message: WebSocketMessage): Promise<void> {
-    const { chatId } = message.payload;
+  private sendError(ws: ExtendedWebSocket, error: ProtocolError, clientMessageId?: string): void {
+    this.sendToClient(ws, {
+      type: 'error',
+      payload: {
+        code: error.code,
+        message: error.message,
+        requestId: error.requestId,
+        details: error.details,
+        clientMessageId,
+        timestamp: new Date()
+      }
+    });
+  }
+
+  private async handleJoinRoom(ws: ExtendedWebSocket, payload: ClientEventPayloads['join_room']): Promise<void> {
+    const { chatId } = payload;
 
     // Verify user is participant in the chat
-    const chat = await Chat.findOne({
-      _id: chatId,
-      participants: ws.userId
-    });
+    const chat = await Chat.findOne({ _id: chatId, participants: ws.userId })
+      .select('participants readPointers deliveryPointers');
 
     if (!chat) {
-      this.sendToClient(ws, {
-        type: 'error',
-        payload: { message: 'Chat not found or access denied' }
-      });
-      return;
+      throw new AppError('Chat not found or access denied', 404);
     }
 
-    // Send confirmation
+    this.chatParticipants.set(chatId, new Set(chat.participants.map(id => id.toString())));
+    ws.rooms!.add(chatId);
+
+    // Receipts are only pushed to viewers, so send the current ones on joining
     this.sendToClient(ws, {
       type: 'room_joined',
-      payload: { chatId, timestamp: new Date() }
+      payload: {
+        chatId,
+        readPointers: chat.readPointers,
+        deliveryPointers: chat.deliveryPointers,
+        timestamp: new Date()
+      }
     });
   }
 
-  private async handleLeaveRoom(ws: ExtendedWebSocket, message: WebSocketMessage): Promise<void> {
-    const { chatId } = message.payload;
+  private async handleLeaveRoom(ws: ExtendedWebSocket, payload: ClientEventPayloads['leave_room']): Promise<void> {
+    const { chatId } = payload;
+
+    ws.rooms?.delete(chatId);
 
     // Remove user from typing if they were typing
     this.typingUsers.delete(`${ws.userId}-${chatId}`);
@@ -190,80 +358,50 @@ class WebSocketManager {
     });
   }
 
-  private async handleSendMessage(ws: ExtendedWebSocket, message: WebSocketMessage): Promise<void> {
-    const { chatId, content, messageType = 'text', fileUrl, fileName, fileSize } = message.payload;
+  private async handleSendMessage(ws: ExtendedWebSocket, payload: ClientEventPayloads['send_message']): Promise<void> {
+    const { chatId, content, replyTo, clientMessageId } = payload;
 
-    try {
-      // Verify user is participant in the chat
-      const chat = await Chat.findOne({
-        _id: chatId,
-        participants: ws.userId
-      });
+    // Persists, updates the chat and broadcasts new_message to all participants
+    const created = await createMessage({
+      senderId: ws.userId!,
+      chatId,
+      content,
+      replyTo,
+      clientMessageId
+    });
 
-      if (!chat) {
-        this.sendToClient(ws, {
-          type: 'error',
-          payload: { message: 'Chat not found or access denied' }
-        });
-        return;
+    // Tells the sender which stored message its send became, also for retries
+    this.sendToClient(ws, {
+      type: 'message_ack',
+      payload: {
+        chatId,
+        clientMessageId,
+        messageId: created?.id,
+        message: created,
+        timestamp: new Date()
       }
+    });
 
-      // Create and save message
-      const newMessage = new Message({
-        sender: ws.userId,
-        chat: chatId,
-        content,
-        messageType,
-        ...(fileUrl && { fileUrl }),
-        ...(fileName && { fileName }),
-        ...(fileSize && { fileSize })
-      });
-
-      await newMessage.save();
-
-      // Update chat's last message
-      chat.lastMessage = newMessage._id;
-      await chat.save();
-
-      // Populate message
-      const populatedMessage = await Message.findById(newMessage._id)
-        .populate('sender', 'username avatar');
-
-      // Broadcast to all participants
-      this.broadcastToChat(chatId, {
-        type: 'new_message',
-        payload: {
-          message: populatedMessage,
-          chatId,
-          timestamp: new Date()
-        }
-      });
-
-      // Remove typing indicator if user was typing
-      this.typingUsers.delete(`${ws.userId}-${chatId}`);
-      this.broadcastToChat(chatId, {
-        type: 'typing_stop',
-        payload: {
-          userId: ws.userId,
-          username: ws.username,
-          chatId,
-          timestamp: new Date()
-        }
-      }, ws.userId);
-
-    } catch (error) {
-      console.error('Error sending message:', error);
-      this.sendToClient(ws, {
-        type: 'error',
-        payload: { message: 'Failed to send message' }
-      });
-    }
+    // Remove typing indicator if user was typing
+    this.typingUsers.delete(`${ws.userId}-${chatId}`);
+    this.broadcastToRoom(chatId, {
+      type: 'typing_stop',
+      payload: {
+        userId: ws.userId!,
+        username: ws.username!,
+        chatId,
+        timestamp: new Date()
+      }
+    }, ws.userId);
   }
 
-  private async handleTypingStart(ws: ExtendedWebSocket, message: WebSocketMessage): Promise<void> {
-    const { chatId } = message.payload;
+  private async handleTypingStart(ws: ExtendedWebSocket, payload: ClientEventPayloads['typing_start']): Promise<void> {
+    const { chatId } = payload;
     const typingKey = `${ws.userId}-${chatId}`;
 
+    // Only sockets viewing a chat can type in it, which also proves membership
+    if (!ws.rooms?.has(chatId)) return;
+
     // Store typing user
     this.typingUsers.set(typingKey, {
       userId: ws.userId!,
@@ -272,12 +410,12 @@ class WebSocketManager {
       timestamp: Date.now()
     });
 
-    // Broadcast to other participants
-    this.broadcastToChat(chatId, {
+    // Broadcast to other participants viewing the chat
+    this.broadcastToRoom(chatId, {
       type: 'typing_start',
       payload: {
-        userId: ws.userId,
-        username: ws.username,
+        userId: ws.userId!,
+        username: ws.username!,
         chatId,
         timestamp: new Date()
       }
@@ -287,11 +425,11 @@ class WebSocketManager {
     setTimeout(() => {
       if (this.typingUsers.has(typingKey)) {
         this.typingUsers.delete(typingKey);
-        this.broadcastToChat(chatId, {
+        this.broadcastToRoom(chatId, {
           type: 'typing_stop',
           payload: {
-            userId: ws.userId,
-            username: ws.username,
+            userId: ws.userId!,
+            username: ws.username!,
             chatId,
             timestamp: new Date()
           }
@@ -300,87 +438,156 @@ class WebSocketManager {
     }, 3000);
   }
 
-  private async handleTypingStop(ws: ExtendedWebSocket, message: WebSocketMessage): Promise<void> {
-    const { chatId } = message.payload;
+  private async handleTypingStop(ws: ExtendedWebSocket, payload: ClientEventPayloads['typing_stop']): Promise<void> {
+    const { chatId } = payload;
     const typingKey = `${ws.userId}-${chatId}`;
 
-    this.typingUsers.delete(typingKey);
+    if (!this.typingUsers.delete(typingKey)) return;
 
-    this.broadcastToChat(chatId, {
+    this.broadcastToRoom(chatId, {
       type: 'typing_stop',
       payload: {
-        userId: ws.userId,
-        username: ws.username,
+        userId: ws.userId!,
+        username: ws.username!,
         chatId,
         timestamp: new Date()
       }
     }, ws.userId);
   }
 
-  private async handleMessageRead(ws: ExtendedWebSocket, message: WebSocketMessage): Promise<void> {
-    const { messageId, chatId } = message.payload;
+  private async handleMessageRead(ws: ExtendedWebSocket, payload: ClientEventPayloads['message_read']): Promise<void> {
+    const { messageId, chatId } = payload;
 
-    try {
-      const messageDoc = await Message.findById(messageId);
-      if (!messageDoc) return;
-
-      // Check if already read by this user
-      const alreadyRead = messageDoc.readBy.some(
-        receipt => receipt.user.toString() === ws.userId
-      );
-
-      if (!alreadyRead) {
-        messageDoc.readBy.push({
-          user: ws.userId as any,
-          readAt: new Date()
-        });
-        await messageDoc.save();
+    // Moves the reader's pointer and broadcasts the receipt
+    await markChatRead(chatId, { id: ws.userId!, username: ws.username! }, messageId);
+  }
+
+  // Clients acknowledge every message they receive, and the latest message of each
+  // chat when they load the chat list, so delivery is tracked per recipient
+  private async handleMessageDelivered(
+    ws: ExtendedWebSocket,
+    payload: ClientEventPayloads['message_delivered']
+  ): Promise<void> {
+    const { messageId, chatId } = payload;
+
+    await markDelivered(chatId, { id: ws.userId!, username: ws.username! }, messageId);
+  }
+
+  // Replays the chat events a reconnecting client missed, given the last sequence number
+  // it saw per chat. Chats whose gap cannot be replayed are answered with `resync_required`
+  // and their current sequence number, so the client reloads them over REST.
+  private async handleResume(ws: ExtendedWebSocket, payload: ClientEventPayloads['resume']): Promise<void> {
+    const { epoch, chats } = payload;
+    const resync: { chatId: string; seq: number }[] = [];
+
+    for (const [chatId, lastSeq] of Object.entries(chats)) {
+      const participants = await this.getChatParticipants(chatId);
+      const currentSeq = this.chatSequences.get(chatId) || 0;
+
+      // Chats deleted or left while away are resynced too, which drops them from the client
+      if (!participants?.has(ws.userId!)) {
+        resync.push({ chatId, seq: currentSeq });
+        continue;
       }
 
-      // Broadcast read receipt
-      this.broadcastToChat(chatId, {
-        type: 'message_read',
-        payload: {
-          messageId,
-          chatId,
-          userId: ws.userId,
-          username: ws.username,
-          timestamp: new Date()
+      const buffer = this.replayBuffers.get(chatId) || [];
+      const oldestSeq = buffer.length > 0 ? buffer[0].seq : currentSeq + 1;
+
+      // Events from another server run, or older than the buffer reaches back
+      if (epoch !== this.epoch || lastSeq < oldestSeq - 1 || lastSeq > currentSeq) {
+        resync.push({ chatId, seq: currentSeq });
+        continue;
+      }
+
+      buffer.forEach(entry => {
+        if (entry.seq > lastSeq && entry.excludeUserId !== ws.userId) {
+          this.sendToClient(ws, entry.message);
         }
       });
+    }
 
-    } catch (error) {
-      console.error('Error marking message as read:', error);
+    if (resync.length > 0) {
+      this.sendToClient(ws, {
+        type: 'resync_required',
+        payload: { chats: resync, timestamp: new Date() }
+      });
     }
   }
 
-  private async handleDisconnection(ws: ExtendedWebSocket): Promise<void> {
-    if (ws.userId) {
-      console.log(`🔴 User ${ws.username} disconnected from WebSocket`);
+  // Swaps the connection's credentials for a fresh token before the current one expires
+  private async handleReauthenticate(
+    ws: ExtendedWebSocket,
+    payload: ClientEventPayloads['reauthenticate']
+  ): Promise<void> {
+    let decoded: ReturnType<typeof verifyToken>;
+    try {
+      decoded = verifyToken(payload.token);
+    } catch {
+      throw new ProtocolError('unauthorized', 'Invalid or expired token');
+    }
+
+    if (decoded.userId !== ws.userId) {
+      throw new ProtocolError('forbidden', 'Token belongs to another user');
+    }
 
-      // Remove from connected users
-      this.connectedUsers.delete(ws.userId);
+    ws.authExpiresAt = decoded.expiresAt;
 
-      // Remove from typing users
-      for (const [key, typingUser] of this.typingUsers.entries()) {
-        if (typingUser.userId === ws.userId) {
-          this.typingUsers.delete(key);
+    this.sendToClient(ws, {
+      type: 'reauthenticated',
+      payload: { authExpiresAt: decoded.expiresAt, timestamp: new Date() }
+    });
+  }
+
+  private async handleDisconnection(ws: ExtendedWebSocket): Promise<void> {
+    if (ws.userId) {
+      const userId = ws.userId;
+      const sessions = this.connectedUsers.get(userId);
+      sessions?.delete(ws);
+
+      // The user's last session on this instance closed
+      if (!sessions || sessions.size === 0) {
+        this.connectedUsers.delete(userId);
+
+        // Remove from typing users
+        for (const [key, typingUser] of this.typingUsers.entries()) {
+          if (typingUser.userId === userId) {
+            this.typingUsers.delete(key);
+          }
         }
       }
 
-      // Update user offline status
+      // Sessions closed by shutdown are taken offline in bulk
+      if (this.isShuttingDown) return;
+
       try {
-        await User.findByIdAndUpdate(ws.userId, {
+        const remaining = await this.presence.removeSession(userId, ws.session!.sessionId);
+
+        // The user is still online in another tab or device
+        if (remaining > 0) {
+          console.log(`🟡 User ${ws.username} closed a session (${remaining} remaining)`);
+          return;
+        }
+
+        console.log(`🔴 User ${ws.username} disconnected from WebSocket`);
+
+        // Update user offline status
+        await User.findByIdAndUpdate(userId, {
           isOnline: false,
           lastSeen: new Date()
         });
 
+        // A new session may have connected while the status was being written
+        if (await this.presence.countSessions(userId) > 0) {
+          await User.findByIdAndUpdate(userId, { isOnline: true });
+          return;
+        }
+
         // Broadcast user offline status
-        this.broadcastToUserChats(ws.userId, {
+        this.broadcastToUserChats(userId, {
           type: 'user_offline',
           payload: {
-            userId: ws.userId,
-            username: ws.username,
+            userId,
+            username: ws.username!,
             timestamp: new Date()
           }
         });
@@ -390,32 +597,191 @@ class WebSocketManager {
     }
   }
 
-  private sendToClient(ws: ExtendedWebSocket, message: WebSocketMessage): void {
+  private sendToClient(ws: ExtendedWebSocket, message: ServerEvent): void {
     if (ws.readyState === WebSocket.OPEN) {
       ws.send(JSON.stringify(message));
     }
   }
 
-  private async broadcastToChat(chatId: string, message: WebSocketMessage, excludeUserId?: string): Promise<void> {
+  private publish(message: BusMessage): Promise<void> {
+    this.publishQueue = this.publishQueue
+      .then(() => this.pubsub.publish(message))
+      .catch(error => console.error('Error publishing WebSocket event:', error));
+    return this.publishQueue;
+  }
+
+  // Delivers a bus message to the affected sockets on this instance
+  private handleBusMessage(message: BusMessage): void {
     try {
-      const chat = await Chat.findById(chatId).populate('participants', '_id');
-      if (!chat) return;
+      switch (message.kind) {
+        case 'users':
+          message.userIds.forEach(userId => this.deliverToUser(userId, message.event));
+          break;
 
-      chat.participants.forEach((participant: any) => {
-        const userId = participant._id.toString();
-        if (userId === excludeUserId) return;
+        case 'chat':
+          this.deliverToChat(message.chatId, message.event, message.excludeUserId);
+          break;
 
-        const userWs = this.connectedUsers.get(userId);
-        if (userWs) {
-          this.sendToClient(userWs, message);
-        }
+        case 'room':
+          this.deliverToRoom(message.chatId, message.event, message.excludeUserId);
+          break;
+
+        case 'remove_members':
+          this.dropChatMembers(message.chatId, message.userIds);
+          break;
+
+        case 'remove_chat':
+          this.dropChatMembers(message.chatId, message.userIds);
+          this.chatSequences.delete(message.chatId);
+          this.replayBuffers.delete(message.chatId);
+          break;
+      }
+    } catch (error) {
+      console.error('Error handling bus message:', error);
+    }
+  }
+
+  // The bus may have dropped messages: cached memberships can be stale and local clients may
+  // have missed chat events that were never sequenced here, so they reload their chats
+  private handleBusGap(): void {
+    this.chatParticipants.clear();
+
+    this.connectedUsers.forEach(sessions => {
+      sessions.forEach(ws => {
+        this.sendToClient(ws, {
+          type: 'resync_required',
+          payload: {
+            chats: Array.from(ws.rooms || []).map(chatId => ({
+              chatId,
+              seq: this.chatSequences.get(chatId) || 0
+            })),
+            timestamp: new Date()
+          }
+        });
+      });
+    });
+  }
+
+  // Delivers to every session of the user, on any instance
+  public sendToUser(userId: string, message: ServerEvent): void {
+    this.publish({ kind: 'users', userIds: [userId], event: message });
+  }
+
+  private deliverToUser(userId: string, message: ServerEvent): void {
+    this.connectedUsers.get(userId)?.forEach(userWs => {
+      this.sendToClient(userWs, message);
+    });
+  }
+
+  // Participant ids of a chat, read from MongoDB only on a cache miss
+  private async getChatParticipants(chatId: string): Promise<Set<string> | null> {
+    const cached = this.chatParticipants.get(chatId);
+    if (cached) return cached;
+
+    if (!Types.ObjectId.isValid(chatId)) return null;
+
+    const chat = await Chat.findById(chatId).select('participants');
+    if (!chat) return null;
+
+    const participants = new Set(chat.participants.map(id => id.toString()));
+    this.chatParticipants.set(chatId, participants);
+    return participants;
+  }
+
+  // Takes users who lost access to a chat out of its room and typing state. Must be called
+  // whenever a chat's participants change, with no ids when members were only added.
+  public removeChatMembers(chatId: string, userIds: string[]): void {
+    this.publish({ kind: 'remove_members', chatId, userIds });
+  }
+
+  // Forgets the room, typing state and event stream of a deleted chat
+  public removeChat(chatId: string, participantIds: string[]): void {
+    this.publish({ kind: 'remove_chat', chatId, userIds: participantIds });
+  }
+
+  private dropChatMembers(chatId: string, userIds: string[]): void {
+    this.chatParticipants.delete(chatId);
+
+    userIds.forEach(userId => {
+      this.typingUsers.delete(`${userId}-${chatId}`);
+      this.connectedUsers.get(userId)?.forEach(userWs => userWs.rooms?.delete(chatId));
+    });
+  }
+
+  // Stamps a chat event with the chat's next sequence number and keeps it for replay
+  private recordChatEvent(chatId: string, message: ServerEvent, excludeUserId?: string): ServerEvent {
+    const seq = (this.chatSequences.get(chatId) || 0) + 1;
+    this.chatSequences.set(chatId, seq);
+
+    const sequenced = { ...message, chatId, seq };
+    const buffer = this.replayBuffers.get(chatId) || [];
+    buffer.push({ seq, message: sequenced, excludeUserId, recordedAt: Date.now() });
+    if (buffer.length > REPLAY_BUFFER_SIZE) {
+      buffer.shift();
+    }
+    this.replayBuffers.set(chatId, buffer);
+
+    return sequenced;
+  }
+
+  // Only the buffers are dropped. A chat's sequence number is kept, so clients that missed its
+  // events still see the gap when resuming and resync, while those that are up to date do not.
+  private evictIdleReplayBuffers(): void {
+    const idleSince = Date.now() - REPLAY_IDLE_MS;
+
+    this.replayBuffers.forEach((buffer, chatId) => {
+      if (buffer[buffer.length - 1].recordedAt < idleSince) {
+        this.replayBuffers.delete(chatId);
+      }
+    });
+  }
+
+  // Reaches every session of every participant, whether or not they are viewing the chat.
+  // These events are sequenced so reconnecting clients can replay what they missed.
+  public async broadcastToChat(chatId: string, message: ServerEvent, excludeUserId?: string): Promise<void> {
+    await this.publish({ kind: 'chat', chatId, event: message, excludeUserId });
+  }
+
+  private async deliverToChat(chatId: string, message: ServerEvent, excludeUserId?: string): Promise<void> {
+    // Sequenced before any await so numbers follow the order events arrive in
+    const sequenced = this.recordChatEvent(chatId, message, excludeUserId);
+
+    try {
+      const participants = await this.getChatParticipants(chatId);
+
+      participants?.forEach(userId => {
+        if (userId === excludeUserId) return;
+        this.deliverToUser(userId, sequenced);
       });
     } catch (error) {
       console.error('Error broadcasting to chat:', error);
     }
   }
 
-  private async broadcastToUserChats(userId: string, message: WebSocketMessage): Promise<void> {
+  // Reaches only the sessions that joined the chat's room, for events that matter while viewing it
+  public async broadcastToRoom(chatId: string, message: ServerEvent, excludeUserId?: string): Promise<void> {
+    await this.publish({ kind: 'room', chatId, event: message, excludeUserId });
+  }
+
+  private async deliverToRoom(chatId: string, message: ServerEvent, excludeUserId?: string): Promise<void> {
+    try {
+      const participants = await this.getChatParticipants(chatId);
+
+      participants?.forEach(userId => {
+        if (userId === excludeUserId) return;
+
+        this.connectedUsers.get(userId)?.forEach(userWs => {
+          if (userWs.rooms?.has(chatId)) {
+            this.sendToClient(userWs, message);
+          }
+        });
+      });
+    } catch (error) {
+      console.error('Error broadcasting to room:', error);
+    }
+  }
+
+  private async broadcastToUserChats(userId: string, message: ServerEvent): Promise<void> {
     try {
       const chats = await Chat.find({ participants: userId }).populate('participants', '_id');
       
@@ -424,56 +790,151 @@ class WebSocketManager {
       chats.forEach(chat => {
         chat.participants.forEach((participant: any) => {
           const participantId = participant._id.toString();
-          if (participantId === userId || notifiedUsers.has(participantId)) return;
-
-          notifiedUsers.add(participantId);
-          const userWs = this.connectedUsers.get(participantId);
-          if (userWs) {
-            this.sendToClient(userWs, message);
+          if (participantId !== userId) {
+            notifiedUsers.add(participantId);
           }
         });
       });
+
+      if (notifiedUsers.size > 0) {
+        await this.publish({ kind: 'users', userIds: Array.from(notifiedUsers), event: message });
+      }
     } catch (error) {
       console.error('Error broadcasting to user chats:', error);
     }
   }
 
   private setupHeartbeat(): void {
-    setInterval(() => {
+    this.heartbeatInterval = setInterval(() => {
+      const sessionIds: string[] = [];
+
       this.wss.clients.forEach((ws: ExtendedWebSocket) => {
         if (ws.isAlive === false) {
           console.log('Terminating inactive WebSocket connection');
           return ws.terminate();
         }
 
+        // Connections have to re-authenticate before their token expires
+        if (ws.authExpiresAt && ws.authExpiresAt.getTime() <= Date.now()) {
+          return ws.close(4005, 'Authentication expired');
+        }
+
         ws.isAlive = false;
         ws.ping();
+        if (ws.session) {
+          sessionIds.push(ws.session.sessionId);
+        }
+      });
+
+      this.presence.refresh(sessionIds).catch(error => {
+        console.error('Error refreshing presence sessions:', error);
       });
+
+      this.evictIdleReplayBuffers();
     }, 30000); // Check every 30 seconds
   }
 
-  public getConnectedUsers(): ConnectedUser[] {
-    const users: ConnectedUser[] = [];
-    this.connectedUsers.forEach((ws, userId) => {
-      users.push({
-        userId,
-        username: ws.username!,
-        socketId: ws.toString(),
-        lastSeen: new Date()
-      });
+  // Users flagged online by an instance that crashed, or by a session whose close was never
+  // handled, stay online in the database until reconciled. Runs once at startup, before any
+  // client connects to this instance, and then periodically.
+  private async setupPresenceReconciliation(): Promise<void> {
+    const reconcile = () => this.reconcilePresence().catch(error => {
+      console.error('Error reconciling presence:', error);
+    });
+
+    await reconcile();
+    this.reconcileInterval = setInterval(reconcile, PRESENCE_RECONCILE_INTERVAL_MS);
+  }
+
+  private async reconcilePresence(): Promise<void> {
+    const flagged = await User.find({ isOnline: true }).select('username');
+    const online = await this.presence.getOnlineUsers(flagged.map(user => user.id));
+    const stale = flagged.filter(user => !online.has(user.id));
+
+    if (stale.length === 0) return;
+
+    await User.updateMany(
+      { _id: { $in: stale.map(user => user.id) }, isOnline: true },
+      { isOnline: false, lastSeen: new Date() }
+    );
+
+    // A user may have connected while the flags were being reset
+    const reconnected = await this.presence.getOnlineUsers(stale.map(user => user.id));
+    if (reconnected.size > 0) {
+      await User.updateMany({ _id: { $in: Array.from(reconnected) } }, { isOnline: true });
+    }
+
+    const offline = stale.filter(user => !reconnected.has(user.id));
+    console.log(`🧹 Reset stale online status of ${offline.length} user(s)`);
+
+    await Promise.all(offline.map(user => this.broadcastToUserChats(user.id, {
+      type: 'user_offline',
+      payload: {
+        userId: user.id,
+        username: user.username,
+        timestamp: new Date()
+      }
+    })));
+  }
+
+  // Stops accepting connections, delivers pending events, then closes every socket with the
+  // "service restart" code. Users without sessions on other instances are marked offline in
+  // one write; no user_offline is broadcast, as clients are expected to reconnect right away.
+  public async shutdown(timeoutMs = 5000): Promise<void> {
+    this.isShuttingDown = true;
+    clearInterval(this.heartbeatInterval);
+    clearInterval(this.reconcileInterval);
+    this.wss.close();
+
+    await this.publishQueue;
+
+    const sockets = Array.from(this.wss.clients) as ExtendedWebSocket[];
+    const closed = Promise.all(sockets.map(ws => new Promise<void>(resolve => {
+      if (ws.readyState === WebSocket.CLOSED) return resolve();
+      ws.once('close', () => resolve());
+      ws.close(SERVICE_RESTART_CLOSE_CODE, 'Server restarting');
+    })));
+
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([closed, new Promise(resolve => { timer = setTimeout(resolve, timeoutMs); })]);
+    clearTimeout(timer);
+
+    // Clients that did not answer the close frame in time
+    sockets.forEach(ws => {
+      if (ws.readyState !== WebSocket.CLOSED) ws.terminate();
     });
-    return users;
+
+    const sessions = sockets.filter(ws => ws.userId && ws.session);
+    const userIds = [...new Set(sessions.map(ws => ws.userId!))];
+
+    try {
+      await this.presence.removeSessions(sessions.map(ws => ws.session!.sessionId));
+
+      const stillOnline = await this.presence.getOnlineUsers(userIds);
+      const offlineIds = userIds.filter(userId => !stillOnline.has(userId));
+
+      if (offlineIds.length > 0) {
+        await User.updateMany({ _id: { $in: offlineIds } }, { isOnline: false, lastSeen: new Date() });
+      }
+      console.log(`🔴 Closed ${sockets.length} WebSocket connection(s), ${offlineIds.length} user(s) now offline`);
+    } catch (error) {
+      console.error('Error marking users offline during shutdown:', error);
+    }
+
+    await this.pubsub.close();
   }
 
-  public getOnlineCount(): number {
-    return this.connectedUsers.size;
+  // Online state computed from live sessions on every instance
+  public getOnlineUsers(userIds: string[]): Promise<Set<string>> {
+    return this.presence.getOnlineUsers(userIds);
   }
 }
 
 let wsManager: WebSocketManager;
 
-export const setupWebSocket = (server: Server): WebSocketManager => {
-  wsManager = new WebSocketManager(server);
+export const setupWebSocket = async (server: Server): Promise<WebSocketManager> => {
+  wsManager = new WebSocketManager(server, createPubSub(), createPresenceRegistry());
+  await wsManager.start();
   return wsManager;
 };
 
@@ -1,12 +1,14 @@
-import React from 'react';
+import React, {useState} from 'react';
 import {BrowserRouter as Router} from 'react-router-dom';
 import {AuthProvider, useAuth} from '@/contexts/AuthContext';
 import {WebSocketProvider} from '@/contexts/WebSocketContext';
 import {useChat} from '@/hooks/useChat';
+import {UploadOptions} from '@/services/api';
 import AuthForm from '@/components/AuthForm';
 import Layout from '@/components/Layout';
 import ChatSidebar from '@/components/ChatSidebar';
 import ChatWindow from '@/components/ChatWindow';
+import SearchPanel from '@/components/SearchPanel';
 import {Loader, MessageCircle} from 'lucide-react';
 
 const ChatApp: React.FC = () => {
@@ -15,16 +17,29 @@ const ChatApp: React.FC = () => {
         chats,
         currentChat,
         messages,
+        pinnedMessages,
+        focusedMessageId,
+        unreadDividerId,
         hasMore,
+        hasNewer,
         isLoading: chatLoading,
         isInitialized,
         createChat,
         sendMessage,
+        sendAttachment,
+        toggleReaction,
+        deleteMessage,
+        togglePin,
         loadMoreMessages,
+        loadNewerMessages,
+        jumpToLatest,
         setActiveChat,
+        openMessage,
+        clearFocusedMessage,
         loadChats,
         updateChatLastMessage,
     } = useChat();
+    const [showSearch, setShowSearch] = useState(false);
 
     // Show loading screen during initial authentication check
     if (authLoading) {
@@ -46,11 +61,11 @@ const ChatApp: React.FC = () => {
     }
 
     // Handle message sending with proper error handling
-    const handleSendMessage = async (content: string) => {
+    const handleSendMessage = async (content: string, replyTo?: string, clientMessageId?: string) => {
         if (!currentChat) return;
 
         try {
-            const sentMessage = await sendMessage(currentChat.id, content);
+            const sentMessage = await sendMessage(currentChat.id, content, replyTo, clientMessageId);
             if (sentMessage) {
                 // Update chat sidebar immediately
                 updateChatLastMessage(sentMessage);
@@ -63,6 +78,16 @@ const ChatApp: React.FC = () => {
         }
     };
 
+    // Upload attachments to the active chat
+    const handleSendAttachment = async (file: File, options: UploadOptions) => {
+        if (!currentChat) return;
+
+        const uploadedMessage = await sendAttachment(currentChat.id, file, options);
+        if (uploadedMessage) {
+            setTimeout(() => loadChats(false), 100);
+        }
+    };
+
     // Enhanced chat creation with auto-selection
     const handleCreateChat = async (participantIds: string[], name?: string, type?: 'private' | 'group') => {
         try {
@@ -89,6 +114,7 @@ const ChatApp: React.FC = () => {
                     onCreateChat={handleCreateChat}
                     isLoading={chatLoading && !isInitialized}
                     onRefresh={() => loadChats()}
+                    onOpenSearch={() => setShowSearch(true)}
                     isInitialized={isInitialized}
                 />
 
@@ -99,8 +125,28 @@ const ChatApp: React.FC = () => {
                             chat={currentChat}
                             messages={messages}
                             onSendMessage={handleSendMessage}
+                            onSendAttachment={handleSendAttachment}
+                            onToggleReaction={toggleReaction}
+                            onDeleteMessage={(messageId, scope) => {
+                                deleteMessage(messageId, scope).catch(() => {
+                                    alert('Failed to delete message. Please try again.');
+                                });
+                            }}
+                            pinnedMessages={pinnedMessages}
+                            onTogglePin={(messageId) => {
+                                togglePin(messageId).catch((error) => {
+                                    alert(error instanceof Error ? error.message : 'Failed to update pinned messages.');
+                                });
+                            }}
+                            focusedMessageId={focusedMessageId}
+                            onFocusHandled={clearFocusedMessage}
+                            onJumpToMessage={(messageId) => openMessage(currentChat, messageId)}
                             onLoadMore={loadMoreMessages}
                             hasMore={hasMore}
+                            onLoadNewer={loadNewerMessages}
+                            hasNewer={hasNewer}
+                            onJumpToLatest={jumpToLatest}
+                            unreadDividerId={unreadDividerId}
                             isLoading={chatLoading}
                             onMessagesUpdate={() => {
                                 // This callback can be used to refresh messages from server if needed
@@ -195,6 +241,16 @@ const ChatApp: React.FC = () => {
                         </div>
                     )}
                 </div>
+
+                {/* Message Search */}
+                {showSearch && (
+                    <SearchPanel
+                        chats={chats}
+                        currentChat={currentChat}
+                        onClose={() => setShowSearch(false)}
+                        onOpenResult={openMessage}
+                    />
+                )}
             </div>
         </Layout>
     );
@@ -30,6 +30,7 @@ interface ChatSidebarProps {
   onCreateChat: (participantIds: string[], name?: string, type?: 'private' | 'group') => void;
   isLoading?: boolean;
   onRefresh?: () => void;
+  onOpenSearch?: () => void;
   isInitialized?: boolean;
 }
 
@@ -40,6 +41,7 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({
                                                    onCreateChat,
                                                    isLoading = false,
                                                    onRefresh,
+                                                   onOpenSearch,
                                                    isInitialized = false
                                                  }) => {
   const [showNewChatModal, setShowNewChatModal] = useState(false);
@@ -162,6 +164,8 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({
 
     const isOwn = chat.lastMessage.sender.id === user?.id;
     const senderName = isOwn ? 'You' : chat.lastMessage.sender.username;
+    if (chat.lastMessage.deletedAt) return `${senderName}: This message was deleted`;
+
     const content = chat.lastMessage.content.length > 35
         ? `${chat.lastMessage.content.substring(0, 35)}...`
         : chat.lastMessage.content;
@@ -169,17 +173,9 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({
     return `${senderName}: ${content}`;
   };
 
-  const hasUnreadMessages = (chat: Chat) => {
-    // This would be determined by your actual unread message logic
-    // For now, using a simple check based on last message
-    if (!chat.lastMessage) return false;
-    return chat.lastMessage.sender.id !== user?.id && Math.random() > 0.8; // Mock for demo
-  };
+  const getUnreadCount = (chat: Chat) => chat.unreadCount || 0;
 
-  const getUnreadCount = (chat: Chat) => {
-    // Mock unread count - replace with actual logic
-    return hasUnreadMessages(chat) ? Math.floor(Math.random() * 3) + 1 : 0;
-  };
+  const hasUnreadMessages = (chat: Chat) => getUnreadCount(chat) > 0;
 
   const getConnectionIcon = () => {
     switch (connectionStatus) {
@@ -273,6 +269,15 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({
                       <RefreshCw className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />
                     </button>
                 )}
+                {onOpenSearch && (
+                    <button
+                        onClick={onOpenSearch}
+                        className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-100 rounded-lg transition-all duration-200"
+                        title="Search messages"
+                    >
+                      <Search className="w-4 h-4" />
+                    </button>
+                )}
                 <button
                     onClick={() => setShowNewChatModal(true)}
                     className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-100 rounded-lg transition-all duration-200 transform hover:scale-105"
@@ -340,8 +345,8 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({
                             </span>
                                 )}
                                 {getUnreadCount(chat) > 0 && (
-                                    <div className="min-w-[20px] h-5 bg-blue-500 text-white text-xs rounded-full flex items-center justify-center animate-pulse px-1.5">
-                                      {getUnreadCount(chat)}
+                                    <div className="min-w-[20px] h-5 bg-blue-500 text-white text-xs rounded-full flex items-center justify-center px-1.5">
+                                      {getUnreadCount(chat) > 99 ? '99+' : getUnreadCount(chat)}
                                     </div>
                                 )}
                               </div>
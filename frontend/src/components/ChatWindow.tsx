@@ -1,7 +1,8 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Chat, Message } from '@/types';
+import { Chat, Message, PinnedMessage } from '@/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { useWebSocket } from '@/contexts/WebSocketContext';
+import { UploadOptions } from '@/services/api';
 import {
   Send,
   Smile,
@@ -14,18 +15,54 @@ import {
   Info,
   Wifi,
   WifiOff,
-  AlertCircle, MessageCircle
+  AlertCircle, MessageCircle,
+  X,
+  FileText,
+  Upload,
+  Reply
 } from 'lucide-react';
 import MessageBubble from './MessageBubble';
 import TypingIndicator from './TypingIndicator';
+import PinnedBanner from './PinnedBanner';
+import MessageInfoSheet from './MessageInfoSheet';
 import { formatDistanceToNow } from '@/utils/dateUtils';
+import { ACCEPTED_FILE_TYPES, MAX_FILE_SIZE, formatFileSize, isImageFile, validateFile } from '@/utils/fileUtils';
+import { getMessageReaders, getMessageStatus } from '@/utils/readUtils';
+
+const MAX_SEEN_BY_AVATARS = 5;
+
+// randomUUID is only available in secure contexts
+const createClientMessageId = () =>
+    window.crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+interface PendingAttachment {
+  id: string;
+  file: File;
+  previewUrl?: string;
+  progress: number;
+  // Queued attachments wait for the ones before them to finish uploading
+  status: 'ready' | 'queued' | 'uploading' | 'failed';
+  error?: string;
+}
 
 interface ChatWindowProps {
   chat: Chat;
   messages: Message[];
-  onSendMessage: (content: string) => Promise<void> | void;
+  onSendMessage: (content: string, replyTo?: string, clientMessageId?: string) => Promise<void> | void;
+  onSendAttachment?: (file: File, options: UploadOptions) => Promise<void> | void;
+  onToggleReaction?: (messageId: string, emoji: string) => void;
+  onDeleteMessage?: (messageId: string, scope: 'me' | 'everyone') => void;
+  pinnedMessages?: PinnedMessage[];
+  onTogglePin?: (messageId: string) => void;
+  focusedMessageId?: string | null;
+  onFocusHandled?: () => void;
+  onJumpToMessage?: (messageId: string) => void;
   onLoadMore: () => void;
   hasMore: boolean;
+  onLoadNewer?: () => void;
+  hasNewer?: boolean;
+  onJumpToLatest?: () => void;
+  unreadDividerId?: string | null;
   isLoading: boolean;
   onMessagesUpdate?: (messages: Message[]) => void;
 }
@@ -34,8 +71,20 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                                  chat,
                                                  messages,
                                                  onSendMessage,
+                                                 onSendAttachment,
+                                                 onToggleReaction,
+                                                 onDeleteMessage,
+                                                 pinnedMessages = [],
+                                                 onTogglePin,
+                                                 focusedMessageId,
+                                                 onFocusHandled,
+                                                 onJumpToMessage,
                                                  onLoadMore,
                                                  hasMore,
+                                                 onLoadNewer,
+                                                 hasNewer = false,
+                                                 onJumpToLatest,
+                                                 unreadDividerId,
                                                  isLoading
                                                }) => {
   const [message, setMessage] = useState('');
@@ -45,12 +94,29 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
   const [showScrollToBottom, setShowScrollToBottom] = useState(false);
   const [isAtBottom, setIsAtBottom] = useState(true);
   const [showChatInfo, setShowChatInfo] = useState(false);
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [infoMessageId, setInfoMessageId] = useState<string | null>(null);
+  // Optimistic messages whose last send attempt failed
+  const [failedMessageIds, setFailedMessageIds] = useState<Set<string>>(new Set());
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
-  const lastMessageCountRef = useRef(messages.length);
+  const lastMessageIdRef = useRef(messages[messages.length - 1]?.id);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadControllersRef = useRef(new Map<string, AbortController>());
+  // Aborted when the chat changes, which stops a send from uploading its remaining attachments
+  const sendControllerRef = useRef<AbortController | null>(null);
+  // Attachments still in the strip, read by a send in progress to skip removed ones
+  const attachmentsRef = useRef<PendingAttachment[]>([]);
+  const dragCounterRef = useRef(0);
+  const unreadDividerRef = useRef<HTMLDivElement>(null);
+  const scrolledToDividerRef = useRef<string | null>(null);
 
   const { user } = useAuth();
   const {
@@ -82,31 +148,41 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
     );
   }, [messages, localMessages]);
 
-  // Auto-scroll to bottom when new messages arrive or when at bottom
+  // Looked up on every render so the info sheet follows edits and deletions
+  const infoMessage = infoMessageId ? allMessages.find(msg => msg.id === infoMessageId) : undefined;
+
+  // Auto-scroll to bottom when new messages arrive or when at bottom.
+  // Older pages are prepended without moving, and an old window of history is left alone.
+  const newestMessage = messages[messages.length - 1];
+  const newestMessageId = newestMessage?.id;
+
+  // Group members who have seen the newest message, updated live from message_read events
+  const seenBy = chat.type === 'group' && newestMessage && !hasNewer
+      ? getMessageReaders(newestMessage, chat).filter(reader => reader.id !== user?.id)
+      : [];
   useEffect(() => {
-    const shouldAutoScroll = isAtBottom || messages.length > lastMessageCountRef.current;
+    const shouldAutoScroll = !hasNewer && (isAtBottom || newestMessageId !== lastMessageIdRef.current);
 
     if (shouldAutoScroll && messagesEndRef.current) {
       messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
     }
 
-    lastMessageCountRef.current = messages.length;
-  }, [allMessages, isAtBottom, messages.length]);
+    lastMessageIdRef.current = newestMessageId;
+  }, [allMessages, isAtBottom, newestMessageId, hasNewer]);
 
   // Clean up local messages when they appear in props (confirmed by server)
   useEffect(() => {
     setLocalMessages(prevLocal =>
         prevLocal.filter(localMsg =>
-            !messages.some(propsMsg =>
-                // Match by content, sender, and approximate time
-                propsMsg.content === localMsg.content &&
-                propsMsg.sender.id === localMsg.sender.id &&
-                Math.abs(new Date(propsMsg.createdAt).getTime() - new Date(localMsg.createdAt).getTime()) < 10000
-            )
+            !messages.some(propsMsg => propsMsg.clientMessageId === localMsg.clientMessageId)
         )
     );
   }, [messages]);
 
+  useEffect(() => {
+    attachmentsRef.current = attachments;
+  }, [attachments]);
+
   // Focus input when chat changes
   useEffect(() => {
     if (inputRef.current) {
@@ -114,25 +190,244 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
     }
     // Reset local messages when chat changes
     setLocalMessages([]);
+    setFailedMessageIds(new Set());
     setMessage('');
     setIsTyping(false);
+    setAttachmentError(null);
+    setReplyingTo(null);
+    setInfoMessageId(null);
+    setAttachments(prev => {
+      prev.forEach(attachment => attachment.previewUrl && URL.revokeObjectURL(attachment.previewUrl));
+      return [];
+    });
     if (typingTimeoutRef.current) {
       clearTimeout(typingTimeoutRef.current);
       typingTimeoutRef.current = null;
     }
+
+    // Abort uploads still in flight or queued for the previous chat
+    const uploadControllers = uploadControllersRef.current;
+    return () => {
+      sendControllerRef.current?.abort();
+      sendControllerRef.current = null;
+      uploadControllers.forEach(controller => controller.abort());
+      uploadControllers.clear();
+    };
   }, [chat.id]);
 
+  const handleReply = (replyMessage: Message) => {
+    setReplyingTo(replyMessage);
+    inputRef.current?.focus();
+  };
+
+  // Pins follow the group admin rules: in groups only the admin manages them
+  const canManagePins = chat.type === 'private' || chat.admin?.id === user?.id;
+  const pinnedMessageIds = React.useMemo(
+      () => new Set(pinnedMessages.filter(pin => pin.message).map(pin => pin.message.id)),
+      [pinnedMessages]
+  );
+
+  // Scroll to a quoted or pinned message and flash it so it is easy to spot
+  const scrollToMessage = useCallback((messageId: string) => {
+    const element = document.getElementById(`message-${messageId}`);
+    if (!element) {
+      console.log('Message is not loaded:', messageId);
+      return false;
+    }
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessageId(messageId);
+    setTimeout(() => {
+      setHighlightedMessageId(current => (current === messageId ? null : current));
+    }, 2000);
+    return true;
+  }, []);
+
+  // Jump to the focused message once the window around it has loaded
+  useEffect(() => {
+    if (!focusedMessageId || isLoading) return;
+
+    if (messages.some(msg => msg.id === focusedMessageId)) {
+      scrollToMessage(focusedMessageId);
+    }
+    onFocusHandled?.();
+  }, [focusedMessageId, messages, isLoading, onFocusHandled, scrollToMessage]);
+
+  // Bring the "New messages" divider into view once when the chat opens
+  useEffect(() => {
+    if (!unreadDividerId || scrolledToDividerRef.current === unreadDividerId || !unreadDividerRef.current) return;
+
+    unreadDividerRef.current.scrollIntoView({ block: 'start' });
+    scrolledToDividerRef.current = unreadDividerId;
+  }, [unreadDividerId, messages]);
+
+  // Quoted or pinned messages outside the loaded window are fetched around them
+  const jumpToMessage = (messageId: string) => {
+    if (!scrollToMessage(messageId)) {
+      onJumpToMessage?.(messageId);
+    }
+  };
+
+  const addFiles = (files: File[]) => {
+    if (files.length === 0) return;
+
+    const errors: string[] = [];
+    const accepted: PendingAttachment[] = [];
+
+    files.forEach(file => {
+      const error = validateFile(file);
+      if (error) {
+        errors.push(error);
+        return;
+      }
+
+      accepted.push({
+        id: `${Date.now()}-${Math.random()}`,
+        file,
+        previewUrl: isImageFile(file) ? URL.createObjectURL(file) : undefined,
+        progress: 0,
+        status: 'ready'
+      });
+    });
+
+    setAttachmentError(errors.length > 0 ? errors.join(', ') : null);
+    setAttachments(prev => [...prev, ...accepted]);
+  };
+
+  const updateAttachment = (id: string, changes: Partial<PendingAttachment>) => {
+    setAttachments(prev => prev.map(attachment =>
+        attachment.id === id ? { ...attachment, ...changes } : attachment
+    ));
+  };
+
+  const discardAttachment = (id: string) => {
+    setAttachments(prev => {
+      const attachment = prev.find(a => a.id === id);
+      if (attachment?.previewUrl) {
+        URL.revokeObjectURL(attachment.previewUrl);
+      }
+      return prev.filter(a => a.id !== id);
+    });
+  };
+
+  // Cancels the upload if it is in flight, otherwise just drops it from the strip
+  const removeAttachment = (id: string) => {
+    const controller = uploadControllersRef.current.get(id);
+    if (controller) {
+      controller.abort();
+    } else {
+      discardAttachment(id);
+    }
+  };
+
+  const uploadAttachments = async (send: AbortSignal) => {
+    if (!onSendAttachment) return;
+
+    const queued = attachments.filter(attachment => attachment.status !== 'uploading');
+    queued.forEach(attachment => updateAttachment(attachment.id, { status: 'queued', error: undefined }));
+
+    for (const attachment of queued) {
+      if (send.aborted) return;
+      // Removed from the strip while waiting for its turn
+      if (!attachmentsRef.current.some(pending => pending.id === attachment.id)) continue;
+
+      const controller = new AbortController();
+      uploadControllersRef.current.set(attachment.id, controller);
+      updateAttachment(attachment.id, { status: 'uploading', progress: 0, error: undefined });
+
+      try {
+        await onSendAttachment(attachment.file, {
+          signal: controller.signal,
+          onProgress: (progress) => updateAttachment(attachment.id, { progress })
+        });
+        discardAttachment(attachment.id);
+      } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') {
+          discardAttachment(attachment.id);
+        } else {
+          console.error('Failed to upload attachment:', error);
+          updateAttachment(attachment.id, {
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Upload failed'
+          });
+        }
+      } finally {
+        uploadControllersRef.current.delete(attachment.id);
+      }
+    }
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files || []));
+    // Allow selecting the same file again after removing it
+    e.target.value = '';
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const images = Array.from(e.clipboardData.files).filter(isImageFile);
+    if (images.length > 0) {
+      e.preventDefault();
+      addFiles(images);
+    }
+  };
+
+  const isFileDrag = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
+
+  const handleDragEnter = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!isFileDrag(e) || !onSendAttachment) return;
+    e.preventDefault();
+    dragCounterRef.current++;
+    setIsDragging(true);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!isFileDrag(e) || !onSendAttachment) return;
+    e.preventDefault();
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!isFileDrag(e)) return;
+    // dragleave also fires when moving between child elements
+    dragCounterRef.current = Math.max(0, dragCounterRef.current - 1);
+    if (dragCounterRef.current === 0) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!isFileDrag(e) || !onSendAttachment) return;
+    e.preventDefault();
+    dragCounterRef.current = 0;
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     const messageContent = message.trim();
 
-    if (!messageContent || isSending || !user) return;
+    if ((!messageContent && attachments.length === 0) || isSending || !user) return;
 
     setIsSending(true);
+    const sendController = new AbortController();
+    sendControllerRef.current = sendController;
+
+    // Attachments are uploaded first, each one becomes its own message
+    if (attachments.length > 0) {
+      await uploadAttachments(sendController.signal);
+    }
+
+    // The chat changed while uploading; the text belonged to the chat that was left
+    if (!messageContent || sendController.signal.aborted) {
+      setIsSending(false);
+      return;
+    }
 
     // Create optimistic message for immediate UI update
+    const clientMessageId = createClientMessageId();
     const optimisticMessage: Message = {
-      id: `temp-${Date.now()}-${Math.random()}`,
+      id: `temp-${clientMessageId}`,
+      clientMessageId,
       content: messageContent,
       sender: {
         id: user.id,
@@ -143,7 +438,16 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
       chatId: chat.id,
       createdAt: new Date(),
       isEdited: false,
-      readBy: []
+      ...(replyingTo && {
+        replyTo: {
+          id: replyingTo.id,
+          sender: replyingTo.sender,
+          content: replyingTo.content,
+          messageType: replyingTo.messageType,
+          fileName: replyingTo.fileName,
+          createdAt: replyingTo.createdAt
+        }
+      })
     };
 
     // Add optimistic message to local state
@@ -151,6 +455,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
 
     // Clear input immediately
     setMessage('');
+    setReplyingTo(null);
     handleStopTyping();
 
     // Scroll to bottom
@@ -160,27 +465,32 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
       }
     }, 100);
 
+    await deliverMessage(optimisticMessage);
+    setIsSending(false);
+  };
+
+  // Sends an optimistic message, or resends it after a failure. The server stores each
+  // clientMessageId once, so a resend after a timed out attempt cannot post it twice.
+  const deliverMessage = async (localMessage: Message) => {
+    setFailedMessageIds(prev => {
+      const next = new Set(prev);
+      next.delete(localMessage.id);
+      return next;
+    });
+
     try {
-      // Send message to server
-      await onSendMessage(messageContent);
+      await onSendMessage(localMessage.content, localMessage.replyTo?.id, localMessage.clientMessageId);
     } catch (error) {
       console.error('Failed to send message:', error);
-
-      // Remove optimistic message on error
-      setLocalMessages(prev =>
-          prev.filter(msg => msg.id !== optimisticMessage.id)
-      );
-
-      // Restore message content
-      setMessage(messageContent);
-
-      // Show error (you might want to add proper error handling UI)
-      alert('Failed to send message. Please try again.');
-    } finally {
-      setIsSending(false);
+      // Keep the bubble so it can be resent or discarded
+      setFailedMessageIds(prev => new Set(prev).add(localMessage.id));
     }
   };
 
+  const discardMessage = (messageId: string) => {
+    setLocalMessages(prev => prev.filter(msg => msg.id !== messageId));
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setMessage(e.target.value);
 
@@ -231,9 +541,21 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
     if (scrollTop === 0 && hasMore && !isLoading) {
       onLoadMore();
     }
+
+    // Load newer messages when scrolled to the bottom of an older window
+    if (atBottom && hasNewer && !isLoading) {
+      onLoadNewer?.();
+    }
   };
 
   const scrollToBottom = () => {
+    if (hasNewer && onJumpToLatest) {
+      onJumpToLatest();
+      setShowScrollToBottom(false);
+      setIsAtBottom(true);
+      return;
+    }
+
     if (messagesEndRef.current) {
       messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
       setShowScrollToBottom(false);
@@ -431,8 +753,20 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
           )}
         </div>
 
+        <PinnedBanner
+            pins={pinnedMessages}
+            onSelect={jumpToMessage}
+            onUnpin={canManagePins ? onTogglePin : undefined}
+        />
+
         {/* Messages */}
-        <div className="flex-1 relative min-h-0">
+        <div
+            className="flex-1 relative min-h-0"
+            onDragEnter={handleDragEnter}
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+        >
           <div
               ref={messagesContainerRef}
               onScroll={handleScroll}
@@ -455,15 +789,68 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                   new Date(msg.createdAt).getTime() - new Date(allMessages[index - 1].createdAt).getTime() > 300000; // 5 minutes
 
               const isOptimistic = msg.id.startsWith('temp-');
+              const isFailed = failedMessageIds.has(msg.id);
 
               return (
-                  <div key={msg.id} className={`message-fade-in ${isOptimistic ? 'opacity-70' : ''}`}>
-                    <MessageBubble
-                        message={msg}
-                        isOwn={msg.sender.id === user?.id}
-                        showAvatar={showAvatar}
-                    />
-                  </div>
+                  <React.Fragment key={msg.id}>
+                    {msg.id === unreadDividerId && (
+                        <div ref={unreadDividerRef} className="flex items-center space-x-3 py-1">
+                          <div className="flex-1 h-px bg-red-200" />
+                          <span className="text-xs font-medium text-red-500 uppercase tracking-wide">New messages</span>
+                          <div className="flex-1 h-px bg-red-200" />
+                        </div>
+                    )}
+                    <div
+                        id={`message-${msg.id}`}
+                        className={`message-fade-in rounded-xl transition-colors duration-500 ${isOptimistic && !isFailed ? 'opacity-70' : ''} ${
+                            highlightedMessageId === msg.id ? 'bg-yellow-100' : ''
+                        }`}
+                    >
+                      <MessageBubble
+                          message={msg}
+                          isOwn={msg.sender.id === user?.id}
+                          showAvatar={showAvatar}
+                          onReply={isOptimistic ? undefined : handleReply}
+                          onQuoteClick={jumpToMessage}
+                          onToggleReaction={isOptimistic ? undefined : onToggleReaction}
+                          onDelete={isOptimistic ? undefined : onDeleteMessage}
+                          onTogglePin={isOptimistic || !canManagePins ? undefined : onTogglePin}
+                          isPinned={pinnedMessageIds.has(msg.id)}
+                          onShowInfo={isOptimistic ? undefined : (message) => setInfoMessageId(message.id)}
+                          status={isOptimistic ? (isFailed ? 'failed' : 'sending') : getMessageStatus(msg, chat)}
+                          onResend={isFailed ? deliverMessage : undefined}
+                          onDiscard={isFailed ? discardMessage : undefined}
+                          currentUserId={user?.id}
+                          participants={chat.participants}
+                      />
+                    </div>
+                    {msg.id === newestMessageId && seenBy.length > 0 && (
+                        <button
+                            type="button"
+                            onClick={() => setInfoMessageId(msg.id)}
+                            title={`Seen by ${seenBy.map(reader => reader.username).join(', ')}`}
+                            className={`flex items-center space-x-1 mt-1 px-1 ${
+                                msg.sender.id === user?.id ? 'ml-auto' : 'ml-10'
+                            }`}
+                        >
+                          <div className="flex -space-x-1">
+                            {seenBy.slice(0, MAX_SEEN_BY_AVATARS).map(reader => (
+                                <div
+                                    key={reader.id}
+                                    className="w-4 h-4 bg-gradient-to-br from-blue-400 to-purple-500 rounded-full ring-1 ring-white flex items-center justify-center"
+                                >
+                                  <span className="text-[9px] font-semibold text-white">
+                                    {reader.username.charAt(0).toUpperCase()}
+                                  </span>
+                                </div>
+                            ))}
+                          </div>
+                          {seenBy.length > MAX_SEEN_BY_AVATARS && (
+                              <span className="text-xs text-gray-500">+{seenBy.length - MAX_SEEN_BY_AVATARS}</span>
+                          )}
+                        </button>
+                    )}
+                  </React.Fragment>
               );
             })}
 
@@ -489,7 +876,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
           </div>
 
           {/* Scroll to Bottom Button */}
-          {showScrollToBottom && (
+          {(showScrollToBottom || hasNewer) && (
               <button
                   onClick={scrollToBottom}
                   className="absolute bottom-4 right-4 p-3 bg-white border border-gray-200 rounded-full shadow-lg hover:shadow-xl transition-all duration-200 hover:bg-gray-50 z-10 group"
@@ -497,10 +884,105 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                 <ChevronDown className="w-5 h-5 text-gray-600 group-hover:text-blue-600 transition-colors" />
               </button>
           )}
+
+          {/* Drop Zone Overlay */}
+          {isDragging && (
+              <div className="absolute inset-2 flex items-center justify-center bg-blue-50/90 border-2 border-dashed border-blue-400 rounded-xl z-20 pointer-events-none">
+                <div className="text-center text-blue-600">
+                  <Upload className="w-10 h-10 mx-auto mb-2" />
+                  <p className="font-medium">Drop files to attach</p>
+                  <p className="text-sm text-blue-500">Up to {formatFileSize(MAX_FILE_SIZE)} each</p>
+                </div>
+              </div>
+          )}
+
+          {infoMessage && (
+              <MessageInfoSheet
+                  message={infoMessage}
+                  chat={chat}
+                  onClose={() => setInfoMessageId(null)}
+              />
+          )}
         </div>
 
         {/* Message Input */}
         <div className="p-4 border-t border-gray-200 bg-white">
+          {/* Attachment Preview Strip */}
+          {attachments.length > 0 && (
+              <div className="flex space-x-3 overflow-x-auto pt-2 pb-3 mb-3 border-b border-gray-100 custom-scrollbar">
+                {attachments.map(attachment => (
+                    <div key={attachment.id} className="relative flex-shrink-0 w-28">
+                      {attachment.previewUrl ? (
+                          <img
+                              src={attachment.previewUrl}
+                              alt={attachment.file.name}
+                              className="w-full h-20 object-cover rounded-lg border border-gray-200"
+                          />
+                      ) : (
+                          <div className="w-full h-20 flex items-center justify-center bg-gray-100 rounded-lg border border-gray-200">
+                            <FileText className="w-8 h-8 text-gray-400" />
+                          </div>
+                      )}
+                      <p className="text-xs text-gray-700 truncate mt-1" title={attachment.file.name}>
+                        {attachment.file.name}
+                      </p>
+                      {attachment.status === 'uploading' ? (
+                          <div className="h-1 mt-1 bg-gray-200 rounded-full overflow-hidden">
+                            <div
+                                className="h-full bg-blue-500 transition-all duration-200"
+                                style={{ width: `${attachment.progress}%` }}
+                            />
+                          </div>
+                      ) : attachment.status === 'failed' ? (
+                          <p className="text-xs text-red-500 truncate" title={attachment.error}>Upload failed</p>
+                      ) : attachment.status === 'queued' ? (
+                          <p className="text-xs text-gray-500">Queued</p>
+                      ) : (
+                          <p className="text-xs text-gray-500">{formatFileSize(attachment.file.size)}</p>
+                      )}
+                      <button
+                          type="button"
+                          onClick={() => removeAttachment(attachment.id)}
+                          title={attachment.status === 'uploading' || attachment.status === 'queued'
+                              ? 'Cancel upload'
+                              : 'Remove attachment'}
+                          className="absolute -top-2 -right-2 p-1 bg-white border border-gray-200 rounded-full shadow-sm text-gray-500 hover:text-red-500 transition-colors"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                ))}
+              </div>
+          )}
+
+          {/* Reply Preview */}
+          {replyingTo && (
+              <div className="flex items-center mb-3 px-3 py-2 bg-gray-50 border-l-4 border-blue-500 rounded-lg">
+                <Reply className="w-4 h-4 text-blue-500 mr-2 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-semibold text-blue-600">
+                    Replying to {replyingTo.sender.id === user?.id ? 'yourself' : replyingTo.sender.username}
+                  </p>
+                  <p className="text-sm text-gray-600 truncate">{replyingTo.content}</p>
+                </div>
+                <button
+                    type="button"
+                    onClick={() => setReplyingTo(null)}
+                    title="Cancel reply"
+                    className="p-1 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-200 transition-colors"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+          )}
+
+          {attachmentError && (
+              <p className="text-sm text-red-500 mb-2 flex items-center">
+                <AlertCircle className="w-3 h-3 mr-1" />
+                {attachmentError}
+              </p>
+          )}
+
           <form onSubmit={handleSendMessage} className="flex items-end space-x-3">
             <div className="flex-1">
               <div className="relative">
@@ -509,6 +991,12 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                     type="text"
                     value={message}
                     onChange={handleInputChange}
+                    onPaste={handlePaste}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Escape' && replyingTo) {
+                        setReplyingTo(null);
+                      }
+                    }}
                     onKeyPress={(e) => {
                       if (e.key === 'Enter' && !e.shiftKey) {
                         e.preventDefault();
@@ -521,9 +1009,20 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                 />
 
                 <div className="absolute right-2 top-1/2 transform -translate-y-1/2 flex items-center space-x-1">
+                  <input
+                      ref={fileInputRef}
+                      type="file"
+                      multiple
+                      accept={ACCEPTED_FILE_TYPES.join(',')}
+                      onChange={handleFileSelect}
+                      className="hidden"
+                  />
                   <button
                       type="button"
-                      className="p-2 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100 transition-colors"
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={!isConnected || !onSendAttachment}
+                      title="Attach files"
+                      className="p-2 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <Paperclip className="w-4 h-4" />
                   </button>
@@ -546,7 +1045,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
 
             <button
                 type="submit"
-                disabled={!message.trim() || isSending || !isConnected}
+                disabled={(!message.trim() && attachments.length === 0) || isSending || !isConnected}
                 className="p-3 bg-blue-500 text-white rounded-full hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-sm relative"
             >
               {isSending ? (
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { MessageRevision } from '@/types';
+import { apiService } from '@/services/api';
+import { formatDate, formatTime } from '@/utils/dateUtils';
+import { diffWords } from '@/utils/diffUtils';
+import { History, X } from 'lucide-react';
+
+interface EditHistoryPopoverProps {
+  messageId: string;
+  isOwn: boolean;
+  onClose: () => void;
+}
+
+const EditHistoryPopover: React.FC<EditHistoryPopoverProps> = ({ messageId, isOwn, onClose }) => {
+  const [versions, setVersions] = useState<MessageRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadHistory = async () => {
+      try {
+        const response = await apiService.getMessageHistory(messageId);
+        if (!cancelled && response.success && response.data) {
+          setVersions([...response.data.revisions, response.data.current]);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load edit history');
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadHistory();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [messageId]);
+
+  const formatVersionTime = (date: Date) => {
+    const versionDate = new Date(date);
+    return `${formatDate(versionDate)} ${formatTime(versionDate)}`;
+  };
+
+  const getVersionLabel = (index: number) => {
+    if (index === 0) return 'Original';
+    if (index === versions.length - 1) return 'Current';
+    return `Edit ${index}`;
+  };
+
+  return (
+      <div
+          className={`absolute bottom-full mb-2 w-72 max-h-80 overflow-y-auto bg-white text-gray-900 border border-gray-200 rounded-xl shadow-xl z-20 text-left ${
+              isOwn ? 'right-0' : 'left-0'
+          }`}
+          onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100 sticky top-0 bg-white">
+          <div className="flex items-center space-x-1 text-sm font-medium text-gray-700">
+            <History className="w-4 h-4" />
+            <span>Edit history</span>
+          </div>
+          <button
+              type="button"
+              onClick={onClose}
+              className="p-1 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100 transition-colors"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+
+        {isLoading ? (
+            <div className="p-4 text-center">
+              <div className="w-5 h-5 border-2 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto"></div>
+            </div>
+        ) : error ? (
+            <p className="p-3 text-sm text-red-500">{error}</p>
+        ) : (
+            <ol className="divide-y divide-gray-100">
+              {versions.map((version, index) => (
+                  <li key={index} className="px-3 py-2">
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-xs font-semibold text-gray-600">{getVersionLabel(index)}</span>
+                      <span className="text-xs text-gray-400">{formatVersionTime(version.editedAt)}</span>
+                    </div>
+                    <p className="text-sm leading-relaxed break-words whitespace-pre-wrap">
+                      {index === 0
+                          ? version.content
+                          : diffWords(versions[index - 1].content, version.content).map((part, partIndex) => (
+                              <span
+                                  key={partIndex}
+                                  className={
+                                    part.type === 'added'
+                                        ? 'bg-green-100 text-green-800'
+                                        : part.type === 'removed'
+                                            ? 'bg-red-100 text-red-700 line-through'
+                                            : ''
+                                  }
+                              >
+                                {part.value}
+                              </span>
+                          ))}
+                    </p>
+                  </li>
+              ))}
+            </ol>
+        )}
+      </div>
+  );
+};
+
+export default EditHistoryPopover;
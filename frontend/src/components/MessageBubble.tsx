@@ -1,15 +1,53 @@
-import React from 'react';
-import { Message } from '@/types';
+import React, { useState } from 'react';
+import { Message, MessageStatus, User } from '@/types';
 import { formatTime, formatDistanceToNow } from '@/utils/dateUtils';
-import { Check, CheckCheck, Edit3 } from 'lucide-react';
+import { formatFileSize, getFileUrl } from '@/utils/fileUtils';
+import EditHistoryPopover from './EditHistoryPopover';
+import { AlertCircle, Check, CheckCheck, Clock, Edit3, RotateCw, Download, FileText, Reply, Smile, Trash2, Ban, Pin, PinOff, Info, Image as ImageIcon } from 'lucide-react';
+
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🎉'];
 
 interface MessageBubbleProps {
   message: Message;
   isOwn: boolean;
   showAvatar: boolean;
+  onReply?: (message: Message) => void;
+  onQuoteClick?: (messageId: string) => void;
+  onToggleReaction?: (messageId: string, emoji: string) => void;
+  onDelete?: (messageId: string, scope: 'me' | 'everyone') => void;
+  onTogglePin?: (messageId: string) => void;
+  onShowInfo?: (message: Message) => void;
+  onResend?: (message: Message) => void;
+  onDiscard?: (messageId: string) => void;
+  isPinned?: boolean;
+  status?: MessageStatus;
+  currentUserId?: string;
+  participants?: User[];
 }
 
-const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isOwn, showAvatar }) => {
+const MessageBubble: React.FC<MessageBubbleProps> = ({
+  message,
+  isOwn,
+  showAvatar,
+  onReply,
+  onQuoteClick,
+  onToggleReaction,
+  onDelete,
+  onTogglePin,
+  onShowInfo,
+  onResend,
+  onDiscard,
+  isPinned = false,
+  status = 'sent',
+  currentUserId,
+  participants = []
+}) => {
+  const [showReactionPicker, setShowReactionPicker] = useState(false);
+  const [showEditHistory, setShowEditHistory] = useState(false);
+  const [showDeleteMenu, setShowDeleteMenu] = useState(false);
+
+  const isDeleted = !!message.deletedAt;
+
   const formatMessageTime = (date: Date) => {
     const now = new Date();
     const messageDate = new Date(date);
@@ -22,8 +60,125 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isOwn, showAvata
     }
   };
 
+  // Uploads without a caption store the file name as content, no need to repeat it
+  const hasCaption = message.messageType === 'text' || message.content !== message.fileName;
+
+  const getReactorNames = (userIds: string[]) => {
+    return userIds
+        .map(id => (id === currentUserId ? 'You' : participants.find(p => p.id === id)?.username || 'Unknown'))
+        .join(', ');
+  };
+
+  const renderReactions = () => {
+    const reactions = (message.reactions || []).filter(r => r.users.length > 0);
+    if (reactions.length === 0) return null;
+
+    return (
+        <div className={`flex flex-wrap gap-1 mt-1 ${isOwn ? 'justify-end' : 'justify-start'}`}>
+          {reactions.map(reaction => {
+            const reactedByMe = !!currentUserId && reaction.users.includes(currentUserId);
+            return (
+                <button
+                    key={reaction.emoji}
+                    type="button"
+                    onClick={() => onToggleReaction?.(message.id, reaction.emoji)}
+                    disabled={!onToggleReaction}
+                    title={getReactorNames(reaction.users)}
+                    className={`flex items-center space-x-1 px-2 py-0.5 rounded-full border text-xs transition-colors ${
+                        reactedByMe
+                            ? 'bg-blue-50 border-blue-300 text-blue-700'
+                            : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+                    }`}
+                >
+                  <span>{reaction.emoji}</span>
+                  <span className="font-medium">{reaction.users.length}</span>
+                </button>
+            );
+          })}
+        </div>
+    );
+  };
+
+  const renderQuote = () => {
+    // replyTo is null when the quoted message no longer exists
+    if (message.replyTo === undefined) return null;
+
+    const quote = message.replyTo;
+
+    return (
+        <button
+            type="button"
+            onClick={() => quote && onQuoteClick?.(quote.id)}
+            disabled={!quote}
+            className={`block w-full text-left mb-1 px-2 py-1 rounded-lg border-l-4 text-xs transition-colors ${
+                isOwn
+                    ? 'bg-blue-600 border-blue-200 hover:bg-blue-700'
+                    : 'bg-gray-100 border-blue-400 hover:bg-gray-200'
+            }`}
+        >
+          {quote?.deletedAt ? (
+              <p className={`italic ${isOwn ? 'text-blue-100' : 'text-gray-500'}`}>This message was deleted</p>
+          ) : quote ? (
+              <>
+                <p className={`font-semibold ${isOwn ? 'text-blue-100' : 'text-blue-600'}`}>
+                  {quote.sender.username}
+                </p>
+                <p className={`flex items-center truncate ${isOwn ? 'text-blue-50' : 'text-gray-600'}`}>
+                  {quote.messageType === 'image' && <ImageIcon className="w-3 h-3 mr-1 flex-shrink-0" />}
+                  {quote.messageType === 'file' && <FileText className="w-3 h-3 mr-1 flex-shrink-0" />}
+                  <span className="truncate">{quote.content}</span>
+                </p>
+              </>
+          ) : (
+              <p className={`italic ${isOwn ? 'text-blue-100' : 'text-gray-500'}`}>Original message was deleted</p>
+          )}
+        </button>
+    );
+  };
+
+  const renderAttachment = () => {
+    const fileUrl = message.fileUrl && getFileUrl(message.fileUrl);
+    if (!fileUrl) return null;
+
+    if (message.messageType === 'image') {
+      return (
+          <a href={fileUrl} target="_blank" rel="noopener noreferrer" className="block -mx-2 mb-1">
+            <img
+                src={fileUrl}
+                alt={message.fileName || 'Image'}
+                loading="lazy"
+                className="rounded-xl max-h-64 w-full object-cover"
+            />
+          </a>
+      );
+    }
+
+    return (
+        <a
+            href={fileUrl}
+            download={message.fileName}
+            target="_blank"
+            rel="noopener noreferrer"
+            className={`flex items-center space-x-3 p-2 mb-1 rounded-xl transition-colors ${
+                isOwn ? 'bg-blue-600 hover:bg-blue-700' : 'bg-white border border-gray-200 hover:bg-gray-100'
+            }`}
+        >
+          <div className={`p-2 rounded-lg ${isOwn ? 'bg-blue-400' : 'bg-gray-100'}`}>
+            <FileText className={`w-5 h-5 ${isOwn ? 'text-white' : 'text-gray-500'}`} />
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium truncate">{message.fileName || 'Attachment'}</p>
+            <p className={`text-xs ${isOwn ? 'text-blue-100' : 'text-gray-500'}`}>
+              {formatFileSize(message.fileSize)}
+            </p>
+          </div>
+          <Download className={`w-4 h-4 flex-shrink-0 ${isOwn ? 'text-blue-100' : 'text-gray-400'}`} />
+        </a>
+    );
+  };
+
   return (
-      <div className={`flex ${isOwn ? 'justify-end' : 'justify-start'} items-end space-x-2`}>
+      <div className={`group flex ${isOwn ? 'justify-end' : 'justify-start'} items-end space-x-2`}>
         {/* Avatar for received messages */}
         {!isOwn && showAvatar && (
             <div className="w-8 h-8 bg-gradient-to-br from-blue-400 to-purple-500 rounded-full flex items-center justify-center flex-shrink-0">
@@ -49,21 +204,59 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isOwn, showAvata
                       : 'bg-gray-50 text-gray-900 border border-gray-100 rounded-bl-md'
               }`}
           >
-            <p className="text-sm leading-relaxed break-words">{message.content}</p>
+            {isDeleted ? (
+                <p className="text-sm italic flex items-center opacity-80">
+                  <Ban className="w-3 h-3 mr-1.5" />
+                  This message was deleted
+                </p>
+            ) : (
+                <>
+                  {renderQuote()}
+
+                  {renderAttachment()}
+
+                  {hasCaption && (
+                      <p className="text-sm leading-relaxed break-words">{message.content}</p>
+                  )}
+                </>
+            )}
 
             <div className={`flex items-center justify-end mt-1 space-x-1 ${
                 isOwn ? 'text-blue-100' : 'text-gray-500'
             }`}>
-              {message.isEdited && (
-                  <Edit3 className="w-3 h-3 opacity-75" />
+              {message.isEdited && !isDeleted && (
+                  <div className="relative flex">
+                    <button
+                        type="button"
+                        onClick={() => setShowEditHistory(!showEditHistory)}
+                        title="Edited - view history"
+                        className="opacity-75 hover:opacity-100 transition-opacity"
+                    >
+                      <Edit3 className="w-3 h-3" />
+                    </button>
+                    {showEditHistory && (
+                        <EditHistoryPopover
+                            messageId={message.id}
+                            isOwn={isOwn}
+                            onClose={() => setShowEditHistory(false)}
+                        />
+                    )}
+                  </div>
               )}
+              {isPinned && <Pin className="w-3 h-3 opacity-75" />}
               <span className="text-xs opacity-90">
               {formatMessageTime(message.createdAt)}
             </span>
 
-              {isOwn && (
-                  <div className="flex opacity-90">
-                    {message.readBy.length > 0 ? (
+              {isOwn && !isDeleted && (
+                  <div className="flex opacity-90" title={status.charAt(0).toUpperCase() + status.slice(1)}>
+                    {status === 'sending' ? (
+                        <Clock className="w-3 h-3" />
+                    ) : status === 'failed' ? (
+                        <AlertCircle className="w-3 h-3 text-red-200" />
+                    ) : status === 'read' ? (
+                        <CheckCheck className="w-3 h-3 text-emerald-300" />
+                    ) : status === 'delivered' ? (
                         <CheckCheck className="w-3 h-3" />
                     ) : (
                         <Check className="w-3 h-3" />
@@ -72,7 +265,147 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isOwn, showAvata
               )}
             </div>
           </div>
+
+          {!isDeleted && renderReactions()}
+
+          {status === 'failed' && (onResend || onDiscard) && (
+              <div className="flex items-center justify-end space-x-2 mt-1 px-1 text-xs">
+                <span className="text-red-500">Not sent</span>
+                {onResend && (
+                    <button
+                        type="button"
+                        onClick={() => onResend(message)}
+                        className="flex items-center text-blue-600 hover:text-blue-700 font-medium"
+                    >
+                      <RotateCw className="w-3 h-3 mr-1" />
+                      Resend
+                    </button>
+                )}
+                {onDiscard && (
+                    <button
+                        type="button"
+                        onClick={() => onDiscard(message.id)}
+                        className="text-gray-500 hover:text-gray-700"
+                    >
+                      Discard
+                    </button>
+                )}
+              </div>
+          )}
         </div>
+
+        {/* Hover actions */}
+        {(onReply || onToggleReaction || onDelete || onTogglePin || onShowInfo) && (
+            <div className={`relative self-center flex items-center transition-opacity ${
+                showReactionPicker || showDeleteMenu ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+            }`}>
+              {onToggleReaction && !isDeleted && (
+                  <button
+                      type="button"
+                      onClick={() => setShowReactionPicker(!showReactionPicker)}
+                      title="React"
+                      className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full transition-colors"
+                  >
+                    <Smile className="w-4 h-4" />
+                  </button>
+              )}
+              {showReactionPicker && onToggleReaction && (
+                  <div
+                      className={`absolute bottom-full mb-1 flex items-center space-x-1 px-2 py-1 bg-white border border-gray-200 rounded-full shadow-lg z-10 ${
+                          isOwn ? 'right-0' : 'left-0'
+                      }`}
+                      onMouseLeave={() => setShowReactionPicker(false)}
+                  >
+                    {QUICK_REACTIONS.map(emoji => (
+                        <button
+                            key={emoji}
+                            type="button"
+                            onClick={() => {
+                              onToggleReaction(message.id, emoji);
+                              setShowReactionPicker(false);
+                            }}
+                            className="text-lg hover:scale-125 transition-transform"
+                        >
+                          {emoji}
+                        </button>
+                    ))}
+                  </div>
+              )}
+              {onReply && !isDeleted && (
+                  <button
+                      type="button"
+                      onClick={() => onReply(message)}
+                      title="Reply"
+                      className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full transition-colors"
+                  >
+                    <Reply className="w-4 h-4" />
+                  </button>
+              )}
+              {onTogglePin && !isDeleted && (
+                  <button
+                      type="button"
+                      onClick={() => onTogglePin(message.id)}
+                      title={isPinned ? 'Unpin' : 'Pin'}
+                      className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full transition-colors"
+                  >
+                    {isPinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                  </button>
+              )}
+              {onShowInfo && isOwn && !isDeleted && (
+                  <button
+                      type="button"
+                      onClick={() => onShowInfo(message)}
+                      title="Message info"
+                      className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full transition-colors"
+                  >
+                    <Info className="w-4 h-4" />
+                  </button>
+              )}
+              {onDelete && (
+                  <button
+                      type="button"
+                      onClick={() => setShowDeleteMenu(!showDeleteMenu)}
+                      title="Delete"
+                      className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-gray-100 rounded-full transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+              )}
+              {showDeleteMenu && onDelete && (
+                  <div
+                      className={`absolute bottom-full mb-1 w-44 py-1 bg-white border border-gray-200 rounded-lg shadow-lg z-10 text-sm ${
+                          isOwn ? 'right-0' : 'left-0'
+                      }`}
+                      onMouseLeave={() => setShowDeleteMenu(false)}
+                  >
+                    <button
+                        type="button"
+                        onClick={() => {
+                          onDelete(message.id, 'me');
+                          setShowDeleteMenu(false);
+                        }}
+                        className="block w-full px-3 py-1.5 text-left text-gray-700 hover:bg-gray-50"
+                    >
+                      Delete for me
+                    </button>
+                    {isOwn && !isDeleted && (
+                        <button
+                            type="button"
+                            onClick={() => {
+                              if (window.confirm('Delete this message for everyone?')) {
+                                onDelete(message.id, 'everyone');
+                              }
+                              setShowDeleteMenu(false);
+                            }}
+                            className="block w-full px-3 py-1.5 text-left text-red-600 hover:bg-red-50"
+                        >
+                          Delete for everyone
+                        </button>
+                    )}
+                  </div>
+              )}
+            </div>
+        )}
       </div>
   );
 };
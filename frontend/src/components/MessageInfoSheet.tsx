@@ -0,0 +1,118 @@
+import React from 'react';
+import { Chat, Message } from '@/types';
+import { formatDate, formatTime } from '@/utils/dateUtils';
+import { MessageReceipt, getMessageReceipts } from '@/utils/readUtils';
+import { Check, CheckCheck, Info, X } from 'lucide-react';
+
+interface MessageInfoSheetProps {
+  message: Message;
+  chat: Chat;
+  onClose: () => void;
+}
+
+const MessageInfoSheet: React.FC<MessageInfoSheetProps> = ({ message, chat, onClose }) => {
+  // Derived from the chat's pointers, so it updates live as receipts arrive
+  const receipts = getMessageReceipts(message, chat);
+  const readReceipts = receipts
+      .filter(receipt => receipt.readAt)
+      .sort((a, b) => new Date(a.readAt!).getTime() - new Date(b.readAt!).getTime());
+  const unreadReceipts = receipts.filter(receipt => !receipt.readAt);
+
+  const formatReceiptTime = (date?: Date) => {
+    if (!date) return '—';
+    const receiptDate = new Date(date);
+    return `${formatDate(receiptDate)} ${formatTime(receiptDate)}`;
+  };
+
+  // Inexact times are when the member got past this message, which may have been later
+  const formatPointerTime = (date: Date | undefined, isExact: boolean) =>
+      isExact ? formatReceiptTime(date) : `by ${formatReceiptTime(date)}`;
+
+  const getPreview = () => {
+    if (message.messageType === 'image') return message.content || 'Photo';
+    if (message.messageType === 'file') return message.fileName || message.content || 'File';
+    return message.content;
+  };
+
+  const renderSection = (
+      title: string,
+      sectionReceipts: MessageReceipt[],
+      renderStatus: (receipt: MessageReceipt) => React.ReactNode
+  ) => {
+    if (sectionReceipts.length === 0) return null;
+
+    return (
+        <div className="border-b border-gray-100 last:border-b-0">
+          <h4 className="px-4 pt-3 pb-1 text-xs font-medium text-gray-500 uppercase tracking-wide">
+            {title} ({sectionReceipts.length})
+          </h4>
+          <ul>
+            {sectionReceipts.map(receipt => (
+                <li key={receipt.user.id} className="flex items-center space-x-3 px-4 py-2">
+                  <div className="w-8 h-8 bg-gradient-to-br from-blue-400 to-purple-500 rounded-full flex items-center justify-center flex-shrink-0">
+                <span className="text-xs font-semibold text-white">
+                  {receipt.user.username.charAt(0).toUpperCase()}
+                </span>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{receipt.user.username}</p>
+                    <div className="text-xs text-gray-500 mt-0.5">{renderStatus(receipt)}</div>
+                  </div>
+                </li>
+            ))}
+          </ul>
+        </div>
+    );
+  };
+
+  return (
+      <div className="absolute inset-0 bg-black/20 flex items-end z-30" onClick={onClose}>
+        <div
+            className="w-full max-h-[70%] overflow-y-auto bg-white rounded-t-2xl shadow-xl custom-scrollbar"
+            onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100 sticky top-0 bg-white">
+            <div className="flex items-center space-x-2 font-medium text-gray-900">
+              <Info className="w-4 h-4 text-blue-500" />
+              <span>Message info</span>
+            </div>
+            <button
+                type="button"
+                onClick={onClose}
+                className="p-1 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100 transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="px-4 py-3 border-b border-gray-100">
+            <p className="text-sm text-gray-700 truncate">{getPreview()}</p>
+            <p className="text-xs text-gray-500 mt-1">Sent {formatReceiptTime(message.createdAt)}</p>
+          </div>
+
+          {renderSection('Read by', readReceipts, receipt => (
+              <span className="flex items-center" title="Read">
+                <CheckCheck className="w-3 h-3 mr-1 text-emerald-500" />
+                {formatPointerTime(receipt.readAt, receipt.readAtIsExact)}
+              </span>
+          ))}
+
+          {renderSection('Not read yet', unreadReceipts, receipt => (
+              receipt.deliveredAt ? (
+                  <span className="flex items-center" title="Delivered">
+                    <CheckCheck className="w-3 h-3 mr-1" />
+                    {formatPointerTime(receipt.deliveredAt, receipt.deliveredAtIsExact)}
+                  </span>
+              ) : (
+                  <span className="flex items-center" title="Not delivered yet">
+                    <Check className="w-3 h-3 mr-1" />
+                    Not delivered yet
+                  </span>
+              )
+          ))}
+        </div>
+      </div>
+  );
+};
+
+export default MessageInfoSheet;
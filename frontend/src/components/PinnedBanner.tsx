@@ -0,0 +1,82 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { PinnedMessage } from '@/types';
+import { FileText, Image as ImageIcon, Pin, X } from 'lucide-react';
+
+interface PinnedBannerProps {
+  pins: PinnedMessage[];
+  onSelect: (messageId: string) => void;
+  onUnpin?: (messageId: string) => void;
+}
+
+const PinnedBanner: React.FC<PinnedBannerProps> = ({ pins, onSelect, onUnpin }) => {
+  const [index, setIndex] = useState(0);
+
+  // Most recent pin first; pins whose message no longer exists are skipped
+  const sortedPins = useMemo(
+      () => pins.filter(pin => pin.message).sort((a, b) => new Date(b.pinnedAt).getTime() - new Date(a.pinnedAt).getTime()),
+      [pins]
+  );
+
+  useEffect(() => {
+    if (index >= sortedPins.length) setIndex(0);
+  }, [sortedPins.length, index]);
+
+  if (sortedPins.length === 0) return null;
+
+  const current = sortedPins[Math.min(index, sortedPins.length - 1)];
+  const { message } = current;
+
+  // Jump to the shown pin, then move on to the next one for the following click
+  const handleClick = () => {
+    onSelect(message.id);
+    setIndex((index + 1) % sortedPins.length);
+  };
+
+  return (
+      <div className="flex items-stretch border-b border-gray-200 bg-white">
+        <button
+            type="button"
+            onClick={handleClick}
+            title={`Pinned by ${current.pinnedBy.username}`}
+            className="flex-1 flex items-center min-w-0 px-4 py-2 text-left hover:bg-gray-50 transition-colors"
+        >
+          {sortedPins.length > 1 && (
+              <div className="flex flex-col justify-center space-y-0.5 mr-3 h-8">
+                {sortedPins.map((pin, pinIndex) => (
+                    <span
+                        key={pin.message.id}
+                        className={`w-0.5 flex-1 rounded-full ${pinIndex === index ? 'bg-blue-500' : 'bg-blue-200'}`}
+                    />
+                ))}
+              </div>
+          )}
+          <Pin className="w-4 h-4 mr-2 text-blue-500 flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="text-xs font-semibold text-blue-600">
+              {sortedPins.length > 1 ? `Pinned message ${index + 1} of ${sortedPins.length}` : 'Pinned message'}
+            </p>
+            <p className="flex items-center text-sm text-gray-700 truncate">
+              {message.messageType === 'image' && <ImageIcon className="w-3 h-3 mr-1 flex-shrink-0" />}
+              {message.messageType === 'file' && <FileText className="w-3 h-3 mr-1 flex-shrink-0" />}
+              <span className="truncate">
+                <span className="font-medium">{message.sender.username}: </span>
+                {message.content}
+              </span>
+            </p>
+          </div>
+        </button>
+        {onUnpin && (
+            <button
+                type="button"
+                onClick={() => onUnpin(message.id)}
+                title="Unpin"
+                className="px-3 text-gray-400 hover:text-gray-600 hover:bg-gray-50 transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+        )}
+      </div>
+  );
+};
+
+export default PinnedBanner;
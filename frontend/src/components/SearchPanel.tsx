@@ -0,0 +1,235 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Chat, MessageSearchResult, SearchSnippet } from '@/types';
+import { apiService } from '@/services/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatDate, formatTime } from '@/utils/dateUtils';
+import { Loader, Search, X } from 'lucide-react';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface SearchPanelProps {
+  chats: Chat[];
+  currentChat: Chat | null;
+  onClose: () => void;
+  onOpenResult: (chat: Chat, messageId: string) => void;
+}
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ chats, currentChat, onClose, onOpenResult }) => {
+  const [query, setQuery] = useState('');
+  const [scope, setScope] = useState<'all' | 'current'>('all');
+  const [fromUserId, setFromUserId] = useState('');
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const requestIdRef = useRef(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { user } = useAuth();
+
+  const scopedChat = scope === 'current' ? currentChat : null;
+  const scopedChatId = scopedChat?.id;
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  // The sender filter only makes sense within one chat
+  useEffect(() => {
+    setFromUserId('');
+  }, [scopedChatId]);
+
+  const runSearch = useCallback(async (pageNum: number) => {
+    const trimmed = query.trim();
+    const requestId = ++requestIdRef.current;
+
+    if (!trimmed) {
+      setResults([]);
+      setTotal(0);
+      setHasMore(false);
+      setError(null);
+      return;
+    }
+
+    setIsSearching(true);
+    try {
+      const response = await apiService.searchMessages(trimmed, {
+        chatId: scopedChatId,
+        from: fromUserId || undefined
+      }, pageNum);
+
+      // Ignore responses to queries the user has already moved past
+      if (requestId !== requestIdRef.current) return;
+
+      if (response.success && response.data) {
+        const { results: pageResults, pagination } = response.data;
+        setResults(prev => (pageNum === 1 ? pageResults : [...prev, ...pageResults]));
+        setTotal(pagination.total);
+        setHasMore(pagination.hasMore);
+        setPage(pageNum);
+        setError(null);
+      }
+    } catch (err) {
+      if (requestId === requestIdRef.current) {
+        setError(err instanceof Error ? err.message : 'Search failed');
+      }
+    } finally {
+      if (requestId === requestIdRef.current) setIsSearching(false);
+    }
+  }, [query, scopedChatId, fromUserId]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => runSearch(1), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [runSearch]);
+
+  const getChatName = (chat: Chat) => {
+    if (chat.type === 'group') {
+      return chat.name || `Group (${chat.participants.length})`;
+    }
+    return chat.participants.find(p => p.id !== user?.id)?.username || 'Unknown';
+  };
+
+  const renderSnippet = (snippet: SearchSnippet) => {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+
+    snippet.highlights.forEach(([start, end], index) => {
+      if (start > cursor) parts.push(snippet.text.substring(cursor, start));
+      parts.push(
+          <mark key={index} className="bg-yellow-200 text-gray-900 rounded px-0.5">
+            {snippet.text.substring(start, end)}
+          </mark>
+      );
+      cursor = end;
+    });
+    parts.push(snippet.text.substring(cursor));
+
+    return parts;
+  };
+
+  return (
+      <div className="w-96 flex-shrink-0 flex flex-col border-l border-gray-200 bg-white">
+        {/* Header */}
+        <div className="p-4 border-b border-gray-100 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">Search messages</h3>
+            <button
+                type="button"
+                onClick={onClose}
+                className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <input
+                ref={inputRef}
+                type="text"
+                placeholder="Search..."
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => e.key === 'Escape' && onClose()}
+                className="w-full pl-10 pr-4 py-2 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          <div className="flex items-center space-x-2 text-sm">
+            <select
+                value={scope}
+                onChange={(e) => setScope(e.target.value as 'all' | 'current')}
+                className="px-2 py-1 border border-gray-200 rounded-lg bg-white"
+            >
+              <option value="all">All chats</option>
+              {currentChat && <option value="current">This chat</option>}
+            </select>
+            {scopedChat && (
+                <select
+                    value={fromUserId}
+                    onChange={(e) => setFromUserId(e.target.value)}
+                    className="px-2 py-1 border border-gray-200 rounded-lg bg-white"
+                >
+                  <option value="">From anyone</option>
+                  {scopedChat.participants.map(participant => (
+                      <option key={participant.id} value={participant.id}>
+                        {participant.id === user?.id ? 'You' : participant.username}
+                      </option>
+                  ))}
+                </select>
+            )}
+          </div>
+        </div>
+
+        {/* Results */}
+        <div className="flex-1 overflow-y-auto">
+          {error ? (
+              <p className="p-4 text-sm text-red-500">{error}</p>
+          ) : query.trim() && !isSearching && results.length === 0 ? (
+              <p className="p-4 text-sm text-gray-500 text-center">No messages found</p>
+          ) : (
+              <>
+                {results.length > 0 && (
+                    <p className="px-4 pt-3 pb-1 text-xs text-gray-500">
+                      {total} {total === 1 ? 'result' : 'results'}
+                    </p>
+                )}
+                <ul className="divide-y divide-gray-100">
+                  {results.map(({ message, snippet }) => {
+                    const chat = chats.find(c => c.id === message.chat);
+                    const createdAt = new Date(message.createdAt);
+
+                    return (
+                        <li key={message.id}>
+                          <button
+                              type="button"
+                              onClick={() => chat && onOpenResult(chat, message.id)}
+                              disabled={!chat}
+                              className="w-full px-4 py-3 text-left hover:bg-gray-50 transition-colors"
+                          >
+                            <div className="flex items-center justify-between mb-1">
+                              <span className="text-xs font-semibold text-blue-600 truncate">
+                                {chat ? getChatName(chat) : 'Unknown chat'}
+                              </span>
+                              <span className="text-xs text-gray-400 flex-shrink-0 ml-2">
+                                {formatDate(createdAt)} {formatTime(createdAt)}
+                              </span>
+                            </div>
+                            <p className="text-sm text-gray-700 break-words">
+                              <span className="font-medium">
+                                {message.sender.id === user?.id ? 'You' : message.sender.username}:{' '}
+                              </span>
+                              {renderSnippet(snippet)}
+                            </p>
+                          </button>
+                        </li>
+                    );
+                  })}
+                </ul>
+
+                {isSearching && (
+                    <div className="flex justify-center p-4">
+                      <Loader className="w-5 h-5 text-blue-500 animate-spin" />
+                    </div>
+                )}
+
+                {hasMore && !isSearching && (
+                    <button
+                        type="button"
+                        onClick={() => runSearch(page + 1)}
+                        className="w-full py-3 text-sm text-blue-600 hover:bg-blue-50 transition-colors"
+                    >
+                      Load more results
+                    </button>
+                )}
+              </>
+          )}
+        </div>
+      </div>
+  );
+};
+
+export default SearchPanel;
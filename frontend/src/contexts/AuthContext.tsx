@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useReducer, useEffect } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useCallback } from 'react';
 import { AuthState, User } from '@/types';
 import { apiService } from '@/services/api';
 
@@ -7,6 +7,7 @@ type AuthAction =
   | { type: 'LOGIN_SUCCESS'; payload: { user: User; token: string } }
   | { type: 'LOGIN_FAILURE' }
   | { type: 'LOGOUT' }
+  | { type: 'TOKEN_REFRESHED'; payload: string }
   | { type: 'SET_USER'; payload: User };
 
 interface AuthContextType extends AuthState {
@@ -14,6 +15,7 @@ interface AuthContextType extends AuthState {
   register: (username: string, email: string, password: string) => Promise<void>;
   logout: () => void;
   updateUser: (user: User) => void;
+  refreshToken: () => Promise<string>;
 }
 
 const initialState: AuthState = {
@@ -55,6 +57,12 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         isLoading: false,
       };
     
+    case 'TOKEN_REFRESHED':
+      return {
+        ...state,
+        token: action.payload,
+      };
+    
     case 'SET_USER':
       return {
         ...state,
@@ -150,12 +158,26 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     dispatch({ type: 'SET_USER', payload: user });
   };
 
+  // Swaps the token for a fresh one, e.g. before a WebSocket connection's credentials expire
+  const refreshToken = useCallback(async (): Promise<string> => {
+    const response = await apiService.refreshToken();
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Token refresh failed');
+    }
+
+    const { token } = response.data;
+    localStorage.setItem('token', token);
+    dispatch({ type: 'TOKEN_REFRESHED', payload: token });
+    return token;
+  }, []);
+
   const value: AuthContextType = {
     ...state,
     login,
     register,
     logout,
     updateUser,
+    refreshToken,
   };
 
   return (
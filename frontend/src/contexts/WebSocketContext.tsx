@@ -1,7 +1,106 @@
 import React, { createContext, useContext, useEffect, useRef, useState, useCallback } from 'react';
 import { websocketService } from '@/services/websocket';
 import { useAuth } from './AuthContext';
-import { Message, TypingUser } from '@/types';
+import {
+  Chat,
+  DeliveryPointer,
+  Message,
+  PinnedMessage,
+  ProtocolErrorEvent,
+  ReadPointer,
+  Reaction,
+  TypingUser
+} from '@/types';
+
+export interface ReactionEvent {
+  messageId: string;
+  chatId: string;
+  emoji: string;
+  userId: string;
+  username: string;
+  reactions: Reaction[];
+}
+
+export interface MessageDeletedEvent {
+  messageId: string;
+  chatId: string;
+  // Tombstone that replaces the deleted message
+  message: Message;
+}
+
+export interface MessageHiddenEvent {
+  messageId: string;
+  chatId: string;
+  // The chat's new preview when the hidden message was its last one, null if none is left
+  lastMessage?: Message | null;
+}
+
+export interface PinsEvent {
+  chatId: string;
+  messageId: string;
+  userId: string;
+  username: string;
+  pins: PinnedMessage[];
+}
+
+export interface MessageReadEvent {
+  chatId: string;
+  messageId: string;
+  userId: string;
+  username: string;
+  lastReadMessageAt: Date;
+  readAt: Date;
+}
+
+export interface MessageDeliveredEvent {
+  chatId: string;
+  messageId: string;
+  userId: string;
+  username: string;
+  lastDeliveredMessageAt: Date;
+  deliveredAt: Date;
+}
+
+export interface RoomJoinedEvent {
+  chatId: string;
+  readPointers: ReadPointer[];
+  deliveryPointers: DeliveryPointer[];
+}
+
+export interface ResyncRequiredEvent {
+  chats: { chatId: string; seq: number }[];
+}
+
+export interface ChatEvent {
+  chat: Chat;
+}
+
+export interface ChatUpdatedEvent extends ChatEvent {
+  userId: string;
+  username: string;
+}
+
+// Members removed from a chat receive the event without `chat`
+export interface MembersEvent {
+  chatId: string;
+  userIds: string[];
+  userId: string;
+  username: string;
+  chat?: Chat;
+}
+
+export interface ChatDeletedEvent {
+  chatId: string;
+  userId: string;
+  username: string;
+}
+
+export interface ChatReadEvent {
+  chatId: string;
+  messageId: string | null;
+  unreadCount: number;
+  firstUnreadMessageId: string | null;
+}
 
 interface WebSocketContextType {
   isConnected: boolean;
@@ -10,23 +109,50 @@ interface WebSocketContextType {
   connectionStatus: 'connecting' | 'connected' | 'disconnected' | 'error';
   joinRoom: (chatId: string) => void;
   leaveRoom: (chatId: string) => void;
-  sendMessage: (chatId: string, content: string, messageType?: string) => void;
+  sendMessage: (
+      chatId: string,
+      content: string,
+      clientMessageId: string,
+      replyTo?: string
+  ) => Promise<Message>;
   startTyping: (chatId: string) => void;
   stopTyping: (chatId: string) => void;
   markMessageAsRead: (messageId: string, chatId: string) => void;
+  acknowledgeDelivery: (messageId: string, chatId: string) => void;
   onNewMessage: (handler: (message: Message) => void) => () => void;
   onUserOnline: (handler: (data: { userId: string; username: string }) => void) => () => void;
   onUserOffline: (handler: (data: { userId: string; username: string }) => void) => () => void;
   onTypingStart: (handler: (data: TypingUser) => void) => () => void;
   onTypingStop: (handler: (data: TypingUser) => void) => () => void;
-  onMessageRead: (handler: (data: { messageId: string; userId: string; username: string; chatId: string }) => void) => () => void;
+  onMessageRead: (handler: (data: MessageReadEvent) => void) => () => void;
+  onMessageDelivered: (handler: (data: MessageDeliveredEvent) => void) => () => void;
+  onRoomJoined: (handler: (data: RoomJoinedEvent) => void) => () => void;
+  onMessageUpdated: (handler: (message: Message) => void) => () => void;
+  onMessageDeleted: (handler: (data: MessageDeletedEvent) => void) => () => void;
+  onMessageHidden: (handler: (data: MessageHiddenEvent) => void) => () => void;
+  onReactionAdded: (handler: (data: ReactionEvent) => void) => () => void;
+  onReactionRemoved: (handler: (data: ReactionEvent) => void) => () => void;
+  onMessagePinned: (handler: (data: PinsEvent) => void) => () => void;
+  onMessageUnpinned: (handler: (data: PinsEvent) => void) => () => void;
+  onChatRead: (handler: (data: ChatReadEvent) => void) => () => void;
+  onResyncRequired: (handler: (data: ResyncRequiredEvent) => void) => () => void;
+  onChatCreated: (handler: (data: ChatEvent) => void) => () => void;
+  onChatUpdated: (handler: (data: ChatUpdatedEvent) => void) => () => void;
+  onMemberAdded: (handler: (data: MembersEvent) => void) => () => void;
+  onMemberRemoved: (handler: (data: MembersEvent) => void) => () => void;
+  onChatDeleted: (handler: (data: ChatDeletedEvent) => void) => () => void;
   reconnect: () => void;
 }
 
 const WebSocketContext = createContext<WebSocketContextType | undefined>(undefined);
 
+// Renew the token this long before the connection's credentials expire
+const REAUTH_MARGIN_MS = 60 * 1000;
+// setTimeout fires immediately for longer delays
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
 export const WebSocketProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { token, isAuthenticated, user } = useAuth();
+  const { token, isAuthenticated, user, refreshToken } = useAuth();
   const [isConnected, setIsConnected] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<'connecting' | 'connected' | 'disconnected' | 'error'>('disconnected');
   const [onlineUsers, setOnlineUsers] = useState<string[]>([]);
@@ -37,6 +163,7 @@ export const WebSocketProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   const reconnectAttempts = useRef<number>(0);
   const maxReconnectAttempts = 5;
   const baseReconnectDelay = 1000;
+  const reauthTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Clear typing timeout for users
   const clearTypingTimeout = useCallback((userId: string, chatId: string) => {
@@ -47,6 +174,34 @@ export const WebSocketProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     }, 3000); // Clear typing after 3 seconds of inactivity
   }, []);
 
+  const clearReauthentication = useCallback(() => {
+    if (reauthTimeoutRef.current) {
+      clearTimeout(reauthTimeoutRef.current);
+      reauthTimeoutRef.current = null;
+    }
+  }, []);
+
+  // Renews the token shortly before the connection's credentials expire and hands it to the
+  // open connection, which the server would otherwise close
+  const scheduleReauthentication = useCallback((authExpiresAt?: string) => {
+    clearReauthentication();
+    if (!authExpiresAt) return;
+
+    const delay = Math.min(
+        Math.max(new Date(authExpiresAt).getTime() - Date.now() - REAUTH_MARGIN_MS, 0),
+        MAX_TIMEOUT_MS
+    );
+
+    reauthTimeoutRef.current = setTimeout(async () => {
+      try {
+        const freshToken = await refreshToken();
+        websocketService.reauthenticate(freshToken);
+      } catch (error) {
+        console.error('Failed to re-authenticate WebSocket:', error);
+      }
+    }, delay);
+  }, [clearReauthentication, refreshToken]);
+
   // Setup WebSocket connection
   const setupConnection = useCallback(async () => {
     if (!isAuthenticated || !token || connectionRef.current) return;
@@ -56,7 +211,7 @@ export const WebSocketProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       console.log('Attempting WebSocket connection...');
       connectionRef.current = true;
 
-      await websocketService.connect(token);
+      await websocketService.connect();
       setIsConnected(true);
       setConnectionStatus('connected');
       reconnectAttempts.current = 0;
@@ -69,6 +224,11 @@ export const WebSocketProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         if (data.onlineUsers) {
           setOnlineUsers(data.onlineUsers);
         }
+        scheduleReauthentication(data.authExpiresAt);
+      });
+
+      websocketService.on('reauthenticated', (data) => {
+        scheduleReauthentication(data.authExpiresAt);
       });
 
       websocketService.on('user_online', (data) => {
@@ -115,9 +275,12 @@ export const WebSocketProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         );
       });
 
-      websocketService.on('error', (data) => {
+      websocketService.on('error', (data: ProtocolErrorEvent) => {
         console.error('WebSocket error:', data);
-        setConnectionStatus('error');
+        // Errors answering a request mean that request failed, not the connection
+        if (!data.requestId) {
+          setConnectionStatus('error');
+        }
       });
 
       websocketService.on('disconnect', () => {
@@ -156,7 +319,7 @@ export const WebSocketProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         }, delay);
       }
     }
-  }, [isAuthenticated, token, clearTypingTimeout]);
+  }, [isAuthenticated, token, clearTypingTimeout, scheduleReauthentication]);
 
   // Manual reconnect function
   const reconnect = useCallback(() => {
@@ -186,6 +349,7 @@ export const WebSocketProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       }
 
       websocketService.disconnect();
+      clearReauthentication();
       setIsConnected(false);
       setConnectionStatus('disconnected');
       setOnlineUsers([]);
@@ -200,7 +364,7 @@ export const WebSocketProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         reconnectTimeoutRef.current = null;
       }
     };
-  }, [isAuthenticated, token, user, setupConnection]);
+  }, [isAuthenticated, token, user, setupConnection, clearReauthentication]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -212,30 +376,29 @@ export const WebSocketProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       if (reconnectTimeoutRef.current) {
         clearTimeout(reconnectTimeoutRef.current);
       }
+      clearReauthentication();
     };
-  }, []);
+  }, [clearReauthentication]);
 
+  // Remembered while disconnected; the service joins again once connected
   const joinRoom = useCallback((chatId: string) => {
-    if (isConnected) {
-      console.log(`Joining room: ${chatId}`);
-      websocketService.joinRoom(chatId);
-    }
-  }, [isConnected]);
+    console.log(`Joining room: ${chatId}`);
+    websocketService.joinRoom(chatId);
+  }, []);
 
   const leaveRoom = useCallback((chatId: string) => {
-    if (isConnected) {
-      console.log(`Leaving room: ${chatId}`);
-      websocketService.leaveRoom(chatId);
-      // Clear typing indicators for this chat
-      setTypingUsers(prev => prev.filter(t => t.chatId !== chatId));
-    }
-  }, [isConnected]);
+    console.log(`Leaving room: ${chatId}`);
+    websocketService.leaveRoom(chatId);
+    // Clear typing indicators for this chat
+    setTypingUsers(prev => prev.filter(t => t.chatId !== chatId));
+  }, []);
 
-  const sendMessage = useCallback((chatId: string, content: string, messageType = 'text') => {
-    if (isConnected) {
-      websocketService.sendMessage(chatId, content, messageType);
-    }
-  }, [isConnected]);
+  const sendMessage = useCallback((
+      chatId: string,
+      content: string,
+      clientMessageId: string,
+      replyTo?: string
+  ) => websocketService.sendMessage(chatId, content, clientMessageId, replyTo), []);
 
   const startTyping = useCallback((chatId: string) => {
     if (isConnected) {
@@ -255,6 +418,12 @@ export const WebSocketProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     }
   }, [isConnected]);
 
+  const acknowledgeDelivery = useCallback((messageId: string, chatId: string) => {
+    if (isConnected) {
+      websocketService.acknowledgeDelivery(messageId, chatId);
+    }
+  }, [isConnected]);
+
   const onNewMessage = useCallback((handler: (message: Message) => void) => {
     const wrappedHandler = (data: any) => handler(data.message || data);
     websocketService.on('new_message', wrappedHandler);
@@ -281,11 +450,92 @@ export const WebSocketProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     return () => websocketService.off('typing_stop', handler);
   }, []);
 
-  const onMessageRead = useCallback((handler: (data: { messageId: string; userId: string; username: string; chatId: string }) => void) => {
+  const onMessageRead = useCallback((handler: (data: MessageReadEvent) => void) => {
     websocketService.on('message_read', handler);
     return () => websocketService.off('message_read', handler);
   }, []);
 
+  const onMessageDelivered = useCallback((handler: (data: MessageDeliveredEvent) => void) => {
+    websocketService.on('message_delivered', handler);
+    return () => websocketService.off('message_delivered', handler);
+  }, []);
+
+  const onRoomJoined = useCallback((handler: (data: RoomJoinedEvent) => void) => {
+    websocketService.on('room_joined', handler);
+    return () => websocketService.off('room_joined', handler);
+  }, []);
+
+  const onMessageUpdated = useCallback((handler: (message: Message) => void) => {
+    const wrappedHandler = (data: any) => handler(data.message || data);
+    websocketService.on('message_updated', wrappedHandler);
+    return () => websocketService.off('message_updated', wrappedHandler);
+  }, []);
+
+  const onMessageDeleted = useCallback((handler: (data: MessageDeletedEvent) => void) => {
+    websocketService.on('message_deleted', handler);
+    return () => websocketService.off('message_deleted', handler);
+  }, []);
+
+  const onMessageHidden = useCallback((handler: (data: MessageHiddenEvent) => void) => {
+    websocketService.on('message_hidden', handler);
+    return () => websocketService.off('message_hidden', handler);
+  }, []);
+
+  const onReactionAdded = useCallback((handler: (data: ReactionEvent) => void) => {
+    websocketService.on('reaction_added', handler);
+    return () => websocketService.off('reaction_added', handler);
+  }, []);
+
+  const onReactionRemoved = useCallback((handler: (data: ReactionEvent) => void) => {
+    websocketService.on('reaction_removed', handler);
+    return () => websocketService.off('reaction_removed', handler);
+  }, []);
+
+  const onMessagePinned = useCallback((handler: (data: PinsEvent) => void) => {
+    websocketService.on('message_pinned', handler);
+    return () => websocketService.off('message_pinned', handler);
+  }, []);
+
+  const onMessageUnpinned = useCallback((handler: (data: PinsEvent) => void) => {
+    websocketService.on('message_unpinned', handler);
+    return () => websocketService.off('message_unpinned', handler);
+  }, []);
+
+  const onChatRead = useCallback((handler: (data: ChatReadEvent) => void) => {
+    websocketService.on('chat_read', handler);
+    return () => websocketService.off('chat_read', handler);
+  }, []);
+
+  const onResyncRequired = useCallback((handler: (data: ResyncRequiredEvent) => void) => {
+    websocketService.on('resync_required', handler);
+    return () => websocketService.off('resync_required', handler);
+  }, []);
+
+  const onChatCreated = useCallback((handler: (data: ChatEvent) => void) => {
+    websocketService.on('chat_created', handler);
+    return () => websocketService.off('chat_created', handler);
+  }, []);
+
+  const onChatUpdated = useCallback((handler: (data: ChatUpdatedEvent) => void) => {
+    websocketService.on('chat_updated', handler);
+    return () => websocketService.off('chat_updated', handler);
+  }, []);
+
+  const onMemberAdded = useCallback((handler: (data: MembersEvent) => void) => {
+    websocketService.on('member_added', handler);
+    return () => websocketService.off('member_added', handler);
+  }, []);
+
+  const onMemberRemoved = useCallback((handler: (data: MembersEvent) => void) => {
+    websocketService.on('member_removed', handler);
+    return () => websocketService.off('member_removed', handler);
+  }, []);
+
+  const onChatDeleted = useCallback((handler: (data: ChatDeletedEvent) => void) => {
+    websocketService.on('chat_deleted', handler);
+    return () => websocketService.off('chat_deleted', handler);
+  }, []);
+
   const value: WebSocketContextType = {
     isConnected,
     connectionStatus,
@@ -297,12 +547,29 @@ export const WebSocketProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     startTyping,
     stopTyping,
     markMessageAsRead,
+    acknowledgeDelivery,
     onNewMessage,
     onUserOnline,
     onUserOffline,
     onTypingStart,
     onTypingStop,
     onMessageRead,
+    onMessageDelivered,
+    onRoomJoined,
+    onMessageUpdated,
+    onMessageDeleted,
+    onMessageHidden,
+    onReactionAdded,
+    onReactionRemoved,
+    onMessagePinned,
+    onMessageUnpinned,
+    onChatRead,
+    onResyncRequired,
+    onChatCreated,
+    onChatUpdated,
+    onMemberAdded,
+    onMemberRemoved,
+    onChatDeleted,
     reconnect,
   };
 
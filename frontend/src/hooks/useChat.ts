@@ -1,29 +1,104 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Chat, Message, User } from '@/types';
-import { apiService } from '@/services/api';
-import { useWebSocket } from '@/contexts/WebSocketContext';
+import { Chat, Message, MessagePageCursor, PinnedMessage, Reaction, User } from '@/types';
+import { apiService, UploadOptions } from '@/services/api';
+import {
+  useWebSocket,
+  ReactionEvent,
+  MessageDeletedEvent,
+  MessageHiddenEvent,
+  PinsEvent,
+  MessageReadEvent,
+  MessageDeliveredEvent,
+  RoomJoinedEvent,
+  ResyncRequiredEvent,
+  ChatReadEvent,
+  ChatEvent,
+  ChatUpdatedEvent,
+  MembersEvent,
+  ChatDeletedEvent
+} from '@/contexts/WebSocketContext';
 import { useAuth } from '@/contexts/AuthContext';
+import { hasDeliveredMessage } from '@/utils/readUtils';
+
+// How many counted message ids are remembered, comfortably more than a reconnect replays
+const COUNTED_MESSAGES_LIMIT = 500;
 
 export const useChat = () => {
   const [chats, setChats] = useState<Chat[]>([]);
   const [currentChat, setCurrentChat] = useState<Chat | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
+  const [pinnedMessages, setPinnedMessages] = useState<PinnedMessage[]>([]);
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
+  // First unread message when the current chat was opened, where the "New messages" divider goes
+  const [unreadDividerId, setUnreadDividerId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [hasMore, setHasMore] = useState(true);
-  const [page, setPage] = useState(1);
+  // True while the loaded window does not reach the latest message, e.g. after jumping to an old one
+  const [hasNewer, setHasNewer] = useState(false);
   const [lastRefresh, setLastRefresh] = useState(Date.now());
   const [isInitialized, setIsInitialized] = useState(false);
 
-  const { onNewMessage, joinRoom, leaveRoom, isConnected } = useWebSocket();
+  const {
+    onNewMessage,
+    onMessageUpdated,
+    onMessageDeleted,
+    onMessageHidden,
+    onReactionAdded,
+    onReactionRemoved,
+    onMessagePinned,
+    onMessageUnpinned,
+    onMessageRead,
+    onMessageDelivered,
+    onRoomJoined,
+    acknowledgeDelivery,
+    markMessageAsRead,
+    onChatRead,
+    onResyncRequired,
+    onChatCreated,
+    onChatUpdated,
+    onMemberAdded,
+    onMemberRemoved,
+    onChatDeleted,
+    joinRoom,
+    leaveRoom,
+    sendMessage: sendSocketMessage,
+    isConnected
+  } = useWebSocket();
   const { isAuthenticated, user } = useAuth();
   const currentChatRef = useRef<Chat | null>(null);
+  // Latest message per chat whose delivery was already acknowledged
+  const acknowledgedRef = useRef(new Map<string, string>());
+  // Incoming messages already counted as unread. A reconnect replays missed events, which can
+  // include messages that also arrived live while the resume was on its way.
+  const countedMessagesRef = useRef(new Set<string>());
   const messageHandlerRef = useRef<((message: Message) => void) | null>(null);
+  const hasNewerRef = useRef(false);
 
   // Keep ref updated
   useEffect(() => {
     currentChatRef.current = currentChat;
   }, [currentChat]);
 
+  useEffect(() => {
+    hasNewerRef.current = hasNewer;
+  }, [hasNewer]);
+
+  // Drop a chat the user lost access to, closing it if it is open
+  const removeChat = useCallback((chatId: string) => {
+    setChats(prev => prev.filter(chat => chat.id !== chatId));
+    acknowledgedRef.current.delete(chatId);
+
+    if (currentChatRef.current?.id === chatId) {
+      leaveRoom(chatId);
+      currentChatRef.current = null;
+      setCurrentChat(null);
+      setMessages([]);
+      setPinnedMessages([]);
+      setHasMore(true);
+      setHasNewer(false);
+    }
+  }, [leaveRoom]);
+
   // Load chats with real-time updates
   const loadChats = useCallback(async (showLoading = true) => {
     if (!isAuthenticated || !user) return;
@@ -50,6 +125,8 @@ export const useChat = () => {
           const updatedCurrentChat = sortedChats.find(c => c.id === currentChatRef.current?.id);
           if (updatedCurrentChat) {
             setCurrentChat(updatedCurrentChat);
+          } else {
+            removeChat(currentChatRef.current.id);
           }
         }
 
@@ -66,25 +143,30 @@ export const useChat = () => {
     } finally {
       if (showLoading) setIsLoading(false);
     }
-  }, [isAuthenticated, user, chats.length, isInitialized]);
+  }, [isAuthenticated, user, chats.length, isInitialized, removeChat]);
 
   // Load messages for a chat
-  const loadMessages = useCallback(async (chatId: string, pageNum = 1, reset = false) => {
+  const loadMessages = useCallback(async (chatId: string, cursor: MessagePageCursor = {}, reset = false) => {
     if (isLoading || !isAuthenticated) return;
 
     setIsLoading(true);
     try {
-      console.log(`Loading messages for chat ${chatId}, page ${pageNum}`);
-      const response = await apiService.getMessages(chatId, pageNum);
+      console.log(`Loading messages for chat ${chatId}`, cursor);
+      const response = await apiService.getMessages(chatId, cursor);
       if (response.success && response.data) {
+        const { messages: loaded, pagination } = response.data;
         if (reset) {
-          setMessages(response.data.messages);
+          setMessages(loaded);
+          setHasMore(pagination.hasMoreBefore);
+          setHasNewer(pagination.hasMoreAfter);
+        } else if (cursor.after) {
+          setMessages(prev => [...prev, ...loaded.filter(msg => !prev.some(p => p.id === msg.id))]);
+          setHasNewer(pagination.hasMoreAfter);
         } else {
-          setMessages(prev => [...response.data.messages, ...prev]);
+          setMessages(prev => [...loaded.filter(msg => !prev.some(p => p.id === msg.id)), ...prev]);
+          setHasMore(pagination.hasMoreBefore);
         }
-        setHasMore(response.data.pagination.hasMore);
-        setPage(pageNum);
-        console.log(`Messages loaded: ${response.data.messages.length}`);
+        console.log(`Messages loaded: ${loaded.length}`);
       }
     } catch (error) {
       console.error('Error loading messages:', error);
@@ -100,10 +182,11 @@ export const useChat = () => {
     try {
       const response = await apiService.createChat(participantIds, name, type);
       if (response.success && response.data) {
-        // Add new chat to the beginning of the list
-        setChats(prev => [response.data.chat, ...prev]);
-        console.log('New chat created:', response.data.chat);
-        return response.data.chat;
+        const newChat = response.data.chat;
+        // Add new chat to the beginning of the list, unless chat_created already did
+        setChats(prev => [newChat, ...prev.filter(chat => chat.id !== newChat.id)]);
+        console.log('New chat created:', newChat);
+        return newChat;
       }
     } catch (error) {
       console.error('Error creating chat:', error);
@@ -111,18 +194,25 @@ export const useChat = () => {
     }
   }, [isAuthenticated]);
 
-  // Send message with optimistic updates
-  const sendMessage = useCallback(async (chatId: string, content: string) => {
+  // Send message with optimistic updates, over the WebSocket while connected and over REST
+  // otherwise. Retrying with the same clientMessageId returns the stored message instead of
+  // posting again, whichever way each attempt went.
+  const sendMessage = useCallback(async (chatId: string, content: string, replyTo?: string, clientMessageId?: string) => {
     if (!isAuthenticated || !user) return;
 
     try {
       console.log(`Sending message to chat ${chatId}`);
-      const response = await apiService.sendMessage(chatId, content);
+      const response = isConnected && clientMessageId
+          ? { success: true, data: { message: await sendSocketMessage(chatId, content, clientMessageId, replyTo) } }
+          : await apiService.sendMessage(chatId, content, replyTo, clientMessageId);
       if (response.success && response.data) {
         console.log('Message sent successfully:', response.data.message);
 
         // Immediately update local messages if this is the current chat
-        if (currentChatRef.current && currentChatRef.current.id === chatId) {
+        if (currentChatRef.current && currentChatRef.current.id === chatId && hasNewerRef.current) {
+          // Viewing older history, so jump back to the latest messages
+          loadMessages(chatId, {}, true);
+        } else if (currentChatRef.current && currentChatRef.current.id === chatId) {
           setMessages(prev => {
             const exists = prev.some(msg => msg.id === response.data.message.id);
             if (!exists) {
@@ -141,21 +231,151 @@ export const useChat = () => {
       console.error('Error sending message:', error);
       throw error;
     }
-  }, [isAuthenticated, user]);
+  }, [isAuthenticated, user, isConnected, sendSocketMessage, loadMessages]);
+
+  // Upload an attachment; the created message is added once the server confirms it
+  const sendAttachment = useCallback(async (chatId: string, file: File, options: UploadOptions = {}) => {
+    if (!isAuthenticated || !user) return;
+
+    try {
+      console.log(`Uploading ${file.name} to chat ${chatId}`);
+      const response = await apiService.uploadAttachment(chatId, file, options);
+      if (response.success && response.data) {
+        const uploadedMessage = response.data.message;
+
+        if (currentChatRef.current && currentChatRef.current.id === chatId && hasNewerRef.current) {
+          loadMessages(chatId, {}, true);
+        } else if (currentChatRef.current && currentChatRef.current.id === chatId) {
+          setMessages(prev => {
+            const exists = prev.some(msg => msg.id === uploadedMessage.id);
+            return exists ? prev : [...prev, uploadedMessage];
+          });
+        }
+
+        updateChatLastMessage(uploadedMessage);
+
+        return uploadedMessage;
+      }
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+      throw error;
+    }
+  }, [isAuthenticated, user, loadMessages]);
+
+  // Swap in a newer version of a message, in the open chat and in the sidebar preview
+  const replaceMessage = useCallback((message: Message) => {
+    setMessages(prev => prev.map(msg => (msg.id === message.id ? message : msg)));
+    setChats(prev => prev.map(chat =>
+        chat.lastMessage?.id === message.id ? { ...chat, lastMessage: message } : chat
+    ));
+  }, []);
+
+  // A message hidden for the current user must not stay in the sidebar preview either
+  const hideMessage = useCallback((messageId: string, lastMessage?: Message | null) => {
+    setMessages(prev => prev.filter(msg => msg.id !== messageId));
+    if (lastMessage === undefined) return;
+
+    setChats(prev => prev.map(chat =>
+        chat.lastMessage?.id === messageId ? { ...chat, lastMessage: lastMessage || undefined } : chat
+    ));
+  }, []);
+
+  // Delete a message only for the current user, or for everyone if they sent it
+  const deleteMessage = useCallback(async (messageId: string, scope: 'me' | 'everyone') => {
+    if (!isAuthenticated) return;
+
+    try {
+      const response = await apiService.deleteMessage(messageId, scope);
+      if (scope === 'me') {
+        hideMessage(messageId, response.data?.lastMessage);
+      } else if (response.success && response.data?.message) {
+        replaceMessage(response.data.message);
+      }
+    } catch (error) {
+      console.error('Error deleting message:', error);
+      throw error;
+    }
+  }, [isAuthenticated, replaceMessage, hideMessage]);
+
+  const setMessageReactions = useCallback((messageId: string, reactions: Reaction[]) => {
+    setMessages(prev => prev.map(msg => (msg.id === messageId ? { ...msg, reactions } : msg)));
+  }, []);
+
+  // Toggle the current user's reaction on a message
+  const toggleReaction = useCallback(async (messageId: string, emoji: string) => {
+    if (!isAuthenticated || !user) return;
+
+    const target = messages.find(msg => msg.id === messageId);
+    const hasReacted = target?.reactions?.some(r => r.emoji === emoji && r.users.includes(user.id));
+
+    try {
+      const response = hasReacted
+          ? await apiService.removeReaction(messageId, emoji)
+          : await apiService.addReaction(messageId, emoji);
+      if (response.success && response.data) {
+        setMessageReactions(messageId, response.data.reactions);
+      }
+    } catch (error) {
+      console.error('Error updating reaction:', error);
+    }
+  }, [isAuthenticated, user, messages, setMessageReactions]);
+
+  const loadPinnedMessages = useCallback(async (chatId: string) => {
+    try {
+      const response = await apiService.getPinnedMessages(chatId);
+      if (response.success && response.data && currentChatRef.current?.id === chatId) {
+        setPinnedMessages(response.data.pins);
+      }
+    } catch (error) {
+      console.error('Error loading pinned messages:', error);
+    }
+  }, []);
+
+  // Pin or unpin a message in the current chat
+  const togglePin = useCallback(async (messageId: string) => {
+    if (!isAuthenticated || !currentChat) return;
+
+    const isPinned = pinnedMessages.some(pin => pin.message.id === messageId);
+
+    try {
+      const response = isPinned
+          ? await apiService.unpinMessage(currentChat.id, messageId)
+          : await apiService.pinMessage(currentChat.id, messageId);
+      if (response.success && response.data) {
+        setPinnedMessages(response.data.pins);
+      }
+    } catch (error) {
+      console.error('Error updating pinned messages:', error);
+      throw error;
+    }
+  }, [isAuthenticated, currentChat, pinnedMessages]);
 
-  // Load more messages
+  // Load older messages, before the oldest one loaded
   const loadMoreMessages = useCallback(() => {
-    if (currentChat && hasMore && !isLoading && isAuthenticated) {
-      loadMessages(currentChat.id, page + 1);
+    if (currentChat && hasMore && !isLoading && isAuthenticated && messages.length > 0) {
+      loadMessages(currentChat.id, { before: messages[0].id });
+    }
+  }, [currentChat, hasMore, isLoading, messages, loadMessages, isAuthenticated]);
+
+  // Load newer messages when the loaded window does not reach the latest one
+  const loadNewerMessages = useCallback(() => {
+    if (currentChat && hasNewer && !isLoading && isAuthenticated && messages.length > 0) {
+      loadMessages(currentChat.id, { after: messages[messages.length - 1].id });
+    }
+  }, [currentChat, hasNewer, isLoading, messages, loadMessages, isAuthenticated]);
+
+  const jumpToLatest = useCallback(() => {
+    if (currentChat && isAuthenticated) {
+      loadMessages(currentChat.id, {}, true);
     }
-  }, [currentChat, hasMore, isLoading, page, loadMessages, isAuthenticated]);
+  }, [currentChat, loadMessages, isAuthenticated]);
 
   // Update chat's last message when new message arrives
   const updateChatLastMessage = useCallback((message: Message) => {
     console.log('Updating chat last message:', message);
     setChats(prevChats => {
       const updatedChats = prevChats.map(chat => {
-        if (chat.id === message.chatId) {
+        if (chat.id === message.chat) {
           return {
             ...chat,
             lastMessage: message,
@@ -177,7 +397,7 @@ export const useChat = () => {
   }, []);
 
   // Set active chat
-  const setActiveChat = useCallback((chat: Chat | null) => {
+  const setActiveChat = useCallback((chat: Chat | null, aroundMessageId?: string) => {
     console.log('Setting active chat:', chat?.id);
 
     if (currentChat && currentChat.id !== chat?.id) {
@@ -185,16 +405,73 @@ export const useChat = () => {
     }
 
     setCurrentChat(chat);
+    setPinnedMessages([]);
+    setUnreadDividerId(chat?.unreadCount ? chat.firstUnreadMessageId || null : null);
 
     if (chat && isAuthenticated) {
+      // Set the ref right away so the pins response is not dropped as stale
+      currentChatRef.current = chat;
       joinRoom(chat.id);
-      loadMessages(chat.id, 1, true);
+
+      // Open at the first unread message unless asked for a specific one
+      const anchorId = aroundMessageId || (chat.unreadCount ? chat.firstUnreadMessageId : null);
+      loadMessages(chat.id, anchorId ? { around: anchorId } : {}, true);
+      loadPinnedMessages(chat.id);
     } else {
       setMessages([]);
-      setPage(1);
       setHasMore(true);
+      setHasNewer(false);
+    }
+  }, [currentChat, joinRoom, leaveRoom, loadMessages, loadPinnedMessages, isAuthenticated]);
+
+  // Open a chat scrolled to a specific message, e.g. from search results or a quoted reply.
+  // Messages that are not loaded yet are fetched as a window centered on them.
+  const openMessage = useCallback((chat: Chat, messageId: string) => {
+    if (currentChat?.id !== chat.id) {
+      setActiveChat(chat, messageId);
+    } else if (!messages.some(msg => msg.id === messageId)) {
+      loadMessages(chat.id, { around: messageId }, true);
     }
-  }, [currentChat, joinRoom, leaveRoom, loadMessages, isAuthenticated]);
+    setFocusedMessageId(messageId);
+  }, [currentChat, messages, setActiveChat, loadMessages]);
+
+  const clearFocusedMessage = useCallback(() => setFocusedMessageId(null), []);
+
+  const setChatUnread = useCallback((chatId: string, unreadCount: number, firstUnreadMessageId: string | null) => {
+    setChats(prev => prev.map(chat =>
+        chat.id === chatId ? { ...chat, unreadCount, firstUnreadMessageId } : chat
+    ));
+  }, []);
+
+  // Mark the open chat read up to the newest loaded message while the page is visible. Over the
+  // WebSocket, which answers with chat_read, so busy chats do not use up the API rate limit.
+  const newestMessageId = messages[messages.length - 1]?.id;
+  const currentUnreadCount = chats.find(chat => chat.id === currentChat?.id)?.unreadCount || 0;
+
+  useEffect(() => {
+    if (!currentChat || !newestMessageId || currentUnreadCount === 0 || isLoading) return;
+
+    const chatId = currentChat.id;
+    const markRead = async () => {
+      if (document.hidden) return;
+      if (isConnected) {
+        markMessageAsRead(newestMessageId, chatId);
+        return;
+      }
+      try {
+        const response = await apiService.markChatRead(chatId, newestMessageId);
+        if (response.success && response.data) {
+          setChatUnread(chatId, response.data.unreadCount, response.data.firstUnreadMessageId);
+        }
+      } catch (error) {
+        console.error('Error marking chat as read:', error);
+      }
+    };
+
+    markRead();
+    document.addEventListener('visibilitychange', markRead);
+    return () => document.removeEventListener('visibilitychange', markRead);
+  }, [currentChat, newestMessageId, currentUnreadCount, isLoading, isConnected, markMessageAsRead, setChatUnread]);
 
   // Setup WebSocket message handler
   useEffect(() => {
@@ -210,8 +487,8 @@ export const useChat = () => {
     const messageHandler = (message: Message) => {
       console.log('Received new message via WebSocket:', message);
 
-      // Add message to current chat if it matches
-      if (currentChatRef.current && currentChatRef.current.id === message.chatId) {
+      // Add message to current chat if it matches, unless older history is shown
+      if (currentChatRef.current && currentChatRef.current.id === message.chat && !hasNewerRef.current) {
         setMessages(prev => {
           // Avoid duplicates
           const exists = prev.some(msg => msg.id === message.id);
@@ -223,6 +500,29 @@ export const useChat = () => {
 
       // Always update chat's last message in sidebar
       updateChatLastMessage(message);
+
+      // Acknowledge delivery and count it as unread; the open chat is marked read again right away
+      if (message.sender.id !== user?.id) {
+        acknowledgeDelivery(message.id, message.chat);
+
+        const counted = countedMessagesRef.current;
+        if (counted.has(message.id)) return;
+        counted.add(message.id);
+        if (counted.size > COUNTED_MESSAGES_LIMIT) {
+          const [oldest] = counted;
+          counted.delete(oldest);
+        }
+
+        setChats(prev => prev.map(chat =>
+            chat.id === message.chat
+                ? {
+                  ...chat,
+                  unreadCount: (chat.unreadCount || 0) + 1,
+                  firstUnreadMessageId: chat.firstUnreadMessageId || message.id
+                }
+                : chat
+        ));
+      }
     };
 
     messageHandlerRef.current = messageHandler;
@@ -232,7 +532,230 @@ export const useChat = () => {
       unsubscribe();
       messageHandlerRef.current = null;
     };
-  }, [onNewMessage, isConnected, isAuthenticated, updateChatLastMessage]);
+  }, [onNewMessage, isConnected, isAuthenticated, updateChatLastMessage, acknowledgeDelivery, user?.id]);
+
+  // Apply edits and deletions made by other participants
+  useEffect(() => {
+    if (!isConnected || !isAuthenticated) return;
+
+    const updatedHandler = (message: Message) => replaceMessage(message);
+
+    // Deleting for everyone leaves a tombstone in place of the message
+    const deletedHandler = (data: MessageDeletedEvent) => replaceMessage(data.message);
+
+    // Message ids are unique, so the open chat only changes if it holds the message
+    const hiddenHandler = (data: MessageHiddenEvent) => hideMessage(data.messageId, data.lastMessage);
+
+    const unsubscribeUpdated = onMessageUpdated(updatedHandler);
+    const unsubscribeDeleted = onMessageDeleted(deletedHandler);
+    const unsubscribeHidden = onMessageHidden(hiddenHandler);
+
+    return () => {
+      unsubscribeUpdated();
+      unsubscribeDeleted();
+      unsubscribeHidden();
+    };
+  }, [onMessageUpdated, onMessageDeleted, onMessageHidden, isConnected, isAuthenticated, replaceMessage, hideMessage]);
+
+  // Keep reactions in sync with other participants
+  useEffect(() => {
+    if (!isConnected || !isAuthenticated) return;
+
+    const reactionHandler = (data: ReactionEvent) => {
+      if (currentChatRef.current && currentChatRef.current.id === data.chatId) {
+        setMessageReactions(data.messageId, data.reactions);
+      }
+    };
+
+    const unsubscribeAdded = onReactionAdded(reactionHandler);
+    const unsubscribeRemoved = onReactionRemoved(reactionHandler);
+
+    return () => {
+      unsubscribeAdded();
+      unsubscribeRemoved();
+    };
+  }, [onReactionAdded, onReactionRemoved, isConnected, isAuthenticated, setMessageReactions]);
+
+  // Reload chats whose missed events could not be replayed after a reconnect
+  useEffect(() => {
+    if (!isConnected || !isAuthenticated) return;
+
+    const resyncHandler = (data: ResyncRequiredEvent) => {
+      loadChats(false);
+
+      const chat = currentChatRef.current;
+      if (chat && data.chats.some(resynced => resynced.chatId === chat.id)) {
+        loadMessages(chat.id, {}, true);
+        loadPinnedMessages(chat.id);
+      }
+    };
+
+    return onResyncRequired(resyncHandler);
+  }, [onResyncRequired, isConnected, isAuthenticated, loadChats, loadMessages, loadPinnedMessages]);
+
+  // Chats created, changed or deleted by other members
+  useEffect(() => {
+    if (!isConnected || !isAuthenticated) return;
+
+    // Adds new chats at the top; for known ones only the details members can change are taken,
+    // keeping unread state and receipts
+    const upsertChat = (chat: Chat) => {
+      const applyDetails = (existing: Chat): Chat => ({
+        ...existing,
+        name: chat.name,
+        participants: chat.participants,
+        admin: chat.admin
+      });
+
+      setChats(prev => prev.some(existing => existing.id === chat.id)
+          ? prev.map(existing => existing.id === chat.id ? applyDetails(existing) : existing)
+          : [chat, ...prev]);
+      setCurrentChat(prev => prev && prev.id === chat.id ? applyDetails(prev) : prev);
+    };
+
+    const chatCreatedHandler = (data: ChatEvent) => upsertChat(data.chat);
+
+    const chatUpdatedHandler = (data: ChatUpdatedEvent) => upsertChat(data.chat);
+
+    const memberAddedHandler = (data: MembersEvent) => {
+      if (data.chat) upsertChat(data.chat);
+    };
+
+    const memberRemovedHandler = (data: MembersEvent) => {
+      if (user && data.userIds.includes(user.id)) {
+        removeChat(data.chatId);
+      } else if (data.chat) {
+        upsertChat(data.chat);
+      }
+    };
+
+    const chatDeletedHandler = (data: ChatDeletedEvent) => removeChat(data.chatId);
+
+    const unsubscribeCreated = onChatCreated(chatCreatedHandler);
+    const unsubscribeUpdated = onChatUpdated(chatUpdatedHandler);
+    const unsubscribeAdded = onMemberAdded(memberAddedHandler);
+    const unsubscribeRemoved = onMemberRemoved(memberRemovedHandler);
+    const unsubscribeDeleted = onChatDeleted(chatDeletedHandler);
+
+    return () => {
+      unsubscribeCreated();
+      unsubscribeUpdated();
+      unsubscribeAdded();
+      unsubscribeRemoved();
+      unsubscribeDeleted();
+    };
+  }, [
+    onChatCreated,
+    onChatUpdated,
+    onMemberAdded,
+    onMemberRemoved,
+    onChatDeleted,
+    isConnected,
+    isAuthenticated,
+    user,
+    removeChat
+  ]);
+
+  // Chats read in the user's other sessions
+  useEffect(() => {
+    if (!isConnected || !isAuthenticated) return;
+
+    const chatReadHandler = (data: ChatReadEvent) => {
+      setChatUnread(data.chatId, data.unreadCount, data.firstUnreadMessageId);
+    };
+
+    return onChatRead(chatReadHandler);
+  }, [onChatRead, isConnected, isAuthenticated, setChatUnread]);
+
+  // Move other members' read and delivery pointers as their receipts arrive
+  useEffect(() => {
+    if (!isConnected || !isAuthenticated) return;
+
+    const updateChat = (chatId: string, update: (chat: Chat) => Chat) => {
+      setChats(prev => prev.map(chat => chat.id === chatId ? update(chat) : chat));
+      setCurrentChat(prev => prev && prev.id === chatId ? update(prev) : prev);
+    };
+
+    const messageReadHandler = (data: MessageReadEvent) => {
+      const pointer = {
+        user: data.userId,
+        lastReadMessage: data.messageId,
+        lastReadMessageAt: data.lastReadMessageAt,
+        readAt: data.readAt
+      };
+      updateChat(data.chatId, chat => ({
+        ...chat,
+        readPointers: [...(chat.readPointers || []).filter(p => p.user !== data.userId), pointer]
+      }));
+    };
+
+    const messageDeliveredHandler = (data: MessageDeliveredEvent) => {
+      const pointer = {
+        user: data.userId,
+        lastDeliveredMessage: data.messageId,
+        lastDeliveredMessageAt: data.lastDeliveredMessageAt,
+        deliveredAt: data.deliveredAt
+      };
+      updateChat(data.chatId, chat => ({
+        ...chat,
+        deliveryPointers: [...(chat.deliveryPointers || []).filter(p => p.user !== data.userId), pointer]
+      }));
+    };
+
+    // Read receipts only reach members viewing a chat, so catch up on opening it
+    const roomJoinedHandler = (data: RoomJoinedEvent) => {
+      updateChat(data.chatId, chat => ({
+        ...chat,
+        readPointers: data.readPointers,
+        deliveryPointers: data.deliveryPointers
+      }));
+    };
+
+    const unsubscribeRead = onMessageRead(messageReadHandler);
+    const unsubscribeDelivered = onMessageDelivered(messageDeliveredHandler);
+    const unsubscribeJoined = onRoomJoined(roomJoinedHandler);
+
+    return () => {
+      unsubscribeRead();
+      unsubscribeDelivered();
+      unsubscribeJoined();
+    };
+  }, [onMessageRead, onMessageDelivered, onRoomJoined, isConnected, isAuthenticated]);
+
+  // Acknowledge the latest message of each loaded chat, covering messages received while offline
+  useEffect(() => {
+    if (!isConnected || !user) return;
+
+    chats.forEach(chat => {
+      const latest = chat.lastMessage;
+      if (!latest || latest.sender.id === user.id || acknowledgedRef.current.get(chat.id) === latest.id) return;
+
+      const pointer = chat.deliveryPointers?.find(p => p.user === user.id);
+      if (!pointer || !hasDeliveredMessage(pointer, latest)) {
+        acknowledgeDelivery(latest.id, chat.id);
+      }
+      acknowledgedRef.current.set(chat.id, latest.id);
+    });
+  }, [chats, isConnected, user, acknowledgeDelivery]);
+
+  // Keep the pinned banner in sync with other participants
+  useEffect(() => {
+    if (!isConnected || !isAuthenticated) return;
+
+    const pinsHandler = (data: PinsEvent) => {
+      if (currentChatRef.current && currentChatRef.current.id === data.chatId) {
+        setPinnedMessages(data.pins);
+      }
+    };
+
+    const unsubscribePinned = onMessagePinned(pinsHandler);
+    const unsubscribeUnpinned = onMessageUnpinned(pinsHandler);
+
+    return () => {
+      unsubscribePinned();
+      unsubscribeUnpinned();
+    };
+  }, [onMessagePinned, onMessageUnpinned, isConnected, isAuthenticated]);
 
   // Initialize chats when authentication is established
   useEffect(() => {
@@ -247,9 +770,10 @@ export const useChat = () => {
       console.log('Resetting chat state - not authenticated');
       setChats([]);
       setCurrentChat(null);
+      setPinnedMessages([]);
       setMessages([]);
-      setPage(1);
       setHasMore(true);
+      setHasNewer(false);
       setIsInitialized(false);
     }
   }, [isAuthenticated, user, isInitialized, loadChats]);
@@ -284,15 +808,27 @@ export const useChat = () => {
     chats,
     currentChat,
     messages,
+    pinnedMessages,
+    focusedMessageId,
+    unreadDividerId,
     isLoading,
     hasMore,
+    hasNewer,
     isInitialized,
     loadChats,
     loadMessages,
     loadMoreMessages,
+    loadNewerMessages,
+    jumpToLatest,
     createChat,
     sendMessage,
+    sendAttachment,
+    toggleReaction,
+    deleteMessage,
+    togglePin,
     setActiveChat,
+    openMessage,
+    clearFocusedMessage,
     updateChatLastMessage,
   };
 };
\ No newline at end of file
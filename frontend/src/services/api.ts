@@ -1,7 +1,24 @@
-import { ApiResponse, User, Chat, Message } from '@/types';
+import {
+  ApiResponse,
+  User,
+  Chat,
+  Message,
+  MessagePageCursor,
+  MessageRevision,
+  MessageSearchFilters,
+  MessageSearchResult,
+  PinnedMessage,
+  Reaction
+} from '@/types';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
 
+export interface UploadOptions {
+  content?: string;
+  onProgress?: (percent: number) => void;
+  signal?: AbortSignal;
+}
+
 class ApiService {
   private getHeaders(includeAuth = true): HeadersInit {
     const headers: HeadersInit = {
@@ -66,6 +83,20 @@ class ApiService {
     return this.request<{ user: User }>('/auth/me');
   }
 
+  // Fresh token for the current user, issued before the current one expires
+  async refreshToken() {
+    return this.request<{ token: string }>('/auth/refresh', {
+      method: 'POST',
+    });
+  }
+
+  // Single-use ticket for opening a WebSocket connection within the next few seconds
+  async getWsTicket() {
+    return this.request<{ ticket: string; expiresIn: number }>('/auth/ws-ticket', {
+      method: 'POST',
+    });
+  }
+
   async logout() {
     return this.request('/auth/logout', {
       method: 'POST',
@@ -117,40 +148,140 @@ class ApiService {
     });
   }
 
+  async markChatRead(chatId: string, messageId?: string) {
+    return this.request<{ unreadCount: number; firstUnreadMessageId: string | null }>(`/chats/${chatId}/read`, {
+      method: 'POST',
+      body: JSON.stringify({ messageId }),
+    });
+  }
+
+  async getPinnedMessages(chatId: string) {
+    return this.request<{ pins: PinnedMessage[] }>(`/chats/${chatId}/pins`);
+  }
+
+  async pinMessage(chatId: string, messageId: string) {
+    return this.request<{ pins: PinnedMessage[] }>(`/chats/${chatId}/pins`, {
+      method: 'POST',
+      body: JSON.stringify({ messageId }),
+    });
+  }
+
+  async unpinMessage(chatId: string, messageId: string) {
+    return this.request<{ pins: PinnedMessage[] }>(`/chats/${chatId}/pins/${messageId}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Message endpoints
-  async getMessages(chatId: string, page = 1, limit = 50) {
-    return this.request<{ 
+  async getMessages(chatId: string, cursor: MessagePageCursor = {}, limit = 50) {
+    const params = new URLSearchParams({ limit: String(limit) });
+    Object.entries(cursor).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+
+    return this.request<{
       messages: Message[];
+      pagination: {
+        limit: number;
+        hasMoreBefore: boolean;
+        hasMoreAfter: boolean;
+      };
+    }>(`/messages/chat/${chatId}?${params.toString()}`);
+  }
+
+  async searchMessages(query: string, filters: MessageSearchFilters = {}, page = 1, limit = 20) {
+    const params = new URLSearchParams({ q: query, page: String(page), limit: String(limit) });
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+
+    return this.request<{
+      results: MessageSearchResult[];
       pagination: {
         page: number;
         limit: number;
         total: number;
         hasMore: boolean;
       };
-    }>(`/messages/chat/${chatId}?page=${page}&limit=${limit}`);
+    }>(`/messages/search?${params.toString()}`);
   }
 
+  // Text messages only; attachments go through uploadAttachment
   async sendMessage(
     chatId: string, 
     content: string, 
-    messageType = 'text',
-    fileUrl?: string,
-    fileName?: string,
-    fileSize?: number
+    replyTo?: string,
+    clientMessageId?: string
   ) {
     return this.request<{ message: Message }>('/messages', {
       method: 'POST',
       body: JSON.stringify({ 
         chatId, 
         content, 
-        messageType,
-        ...(fileUrl && { fileUrl }),
-        ...(fileName && { fileName }),
-        ...(fileSize && { fileSize })
+        ...(replyTo && { replyTo }),
+        ...(clientMessageId && { clientMessageId })
       }),
     });
   }
 
+  // Uses XHR rather than fetch so callers can follow upload progress
+  uploadAttachment(
+    chatId: string,
+    file: File,
+    options: UploadOptions = {}
+  ): Promise<ApiResponse<{ message: Message }>> {
+    const { content, onProgress, signal } = options;
+
+    const formData = new FormData();
+    formData.append('chatId', chatId);
+    if (content) {
+      formData.append('content', content);
+    }
+    formData.append('file', file);
+
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open('POST', `${API_BASE_URL}/uploads`);
+
+      const token = localStorage.getItem('token');
+      if (token) {
+        xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+      }
+
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable && onProgress) {
+          onProgress(Math.round((event.loaded / event.total) * 100));
+        }
+      };
+
+      xhr.onload = () => {
+        try {
+          const data = JSON.parse(xhr.responseText);
+          if (xhr.status >= 200 && xhr.status < 300) {
+            resolve(data);
+          } else {
+            reject(new Error(data.message || `HTTP error! status: ${xhr.status}`));
+          }
+        } catch (error) {
+          reject(new Error(`HTTP error! status: ${xhr.status}`));
+        }
+      };
+
+      xhr.onerror = () => reject(new Error('Network error while uploading file'));
+      xhr.onabort = () => reject(new DOMException('Upload cancelled', 'AbortError'));
+
+      if (signal) {
+        if (signal.aborted) {
+          xhr.abort();
+          return;
+        }
+        signal.addEventListener('abort', () => xhr.abort(), { once: true });
+      }
+
+      xhr.send(formData);
+    });
+  }
+
   async editMessage(id: string, content: string) {
     return this.request<{ message: Message }>(`/messages/${id}`, {
       method: 'PUT',
@@ -158,8 +289,26 @@ class ApiService {
     });
   }
 
-  async deleteMessage(id: string) {
-    return this.request(`/messages/${id}`, {
+  async getMessageHistory(id: string) {
+    return this.request<{ revisions: MessageRevision[]; current: MessageRevision }>(`/messages/${id}/history`);
+  }
+
+  async deleteMessage(id: string, scope: 'me' | 'everyone' = 'everyone') {
+    // Deleting for everyone returns the tombstone, hiding may return the chat's new preview
+    return this.request<{ message?: Message; lastMessage?: Message | null }>(`/messages/${id}?scope=${scope}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async addReaction(messageId: string, emoji: string) {
+    return this.request<{ reactions: Reaction[] }>(`/messages/${messageId}/reactions`, {
+      method: 'POST',
+      body: JSON.stringify({ emoji }),
+    });
+  }
+
+  async removeReaction(messageId: string, emoji: string) {
+    return this.request<{ reactions: Reaction[] }>(`/messages/${messageId}/reactions/${encodeURIComponent(emoji)}`, {
       method: 'DELETE',
     });
   }
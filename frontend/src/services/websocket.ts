@@ -1,7 +1,20 @@
-import { WebSocketMessage, Message, User } from '@/types';
+import { ClientEventPayloads, ClientEventType, Message, ProtocolErrorEvent, WebSocketMessage, User } from '@/types';
+import { apiService } from '@/services/api';
 
 type WebSocketEventHandler = (data: any) => void;
 
+// Must be one of the versions the server supports, see backend/src/websocket/protocol.ts
+const PROTOCOL_VERSION = 2;
+// Close code the server uses when none of the offered protocol versions is supported
+const UNSUPPORTED_PROTOCOL_CLOSE_CODE = 4004;
+// Close code the server sends when it restarts; another instance or the restarted one is
+// expected to be back shortly, so the client reconnects quickly without backing off
+const SERVICE_RESTART_CLOSE_CODE = 1012;
+const RESTART_RECONNECT_DELAY_MS = 1000;
+const RESTART_RECONNECT_JITTER_MS = 2000;
+// How long a sent message may wait for its message_ack before the send counts as failed
+const MESSAGE_ACK_TIMEOUT_MS = 10000;
+
 class WebSocketService {
   private ws: WebSocket | null = null;
   private eventHandlers: Map<string, WebSocketEventHandler[]> = new Map();
@@ -9,17 +22,33 @@ class WebSocketService {
   private maxReconnectAttempts = 5;
   private reconnectInterval = 3000;
   private isManualClose = false;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  // Rooms are per socket on the server, so they are joined again after reconnecting
+  private rooms = new Set<string>();
+  // The server only handles messages once it has sent `connection`
+  private isReady = false;
+  // Last event sequence number seen per chat, within the server run identified by epoch
+  private lastSeqs = new Map<string, number>();
+  private epoch: string | null = null;
+  private nextRequestId = 0;
 
   constructor() {
     this.eventHandlers = new Map();
   }
 
-  connect(token: string): Promise<void> {
+  // Opens the socket with a single-use ticket, so the JWT never ends up in a URL
+  async connect(): Promise<void> {
+    const response = await apiService.getWsTicket();
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Failed to get WebSocket ticket');
+    }
+    const { ticket } = response.data;
+
     return new Promise((resolve, reject) => {
       const wsUrl = import.meta.env.VITE_WS_URL || 'ws://localhost:5000';
-      const url = `${wsUrl}/ws?token=${encodeURIComponent(token)}`;
+      const url = `${wsUrl}/ws?ticket=${encodeURIComponent(ticket)}`;
 
-      this.ws = new WebSocket(url);
+      this.ws = new WebSocket(url, [`chat.v${PROTOCOL_VERSION}`]);
 
       this.ws.onopen = () => {
         console.log('✅ WebSocket connected');
@@ -39,14 +68,24 @@ class WebSocketService {
 
       this.ws.onclose = (event) => {
         console.log('🔴 WebSocket disconnected:', event.code, event.reason);
-        
-        if (!this.isManualClose && this.reconnectAttempts < this.maxReconnectAttempts) {
-          setTimeout(() => {
-            this.reconnectAttempts++;
-            console.log(`🔄 Reconnecting WebSocket (${this.reconnectAttempts}/${this.maxReconnectAttempts})...`);
-            this.connect(token);
-          }, this.reconnectInterval * this.reconnectAttempts);
+        this.isReady = false;
+
+        // Reconnecting cannot help until the client is updated
+        if (event.code === UNSUPPORTED_PROTOCOL_CLOSE_CODE) {
+          console.error('WebSocket protocol version not supported by the server');
+          return;
         }
+
+        if (this.isManualClose) return;
+
+        // Spread reconnects so clients of a restarting server do not all arrive at once
+        if (event.code === SERVICE_RESTART_CLOSE_CODE) {
+          this.reconnectAttempts = 0;
+          this.scheduleReconnect(RESTART_RECONNECT_DELAY_MS + Math.random() * RESTART_RECONNECT_JITTER_MS);
+          return;
+        }
+
+        this.scheduleReconnect(this.reconnectInterval * this.reconnectAttempts);
       };
 
       this.ws.onerror = (error) => {
@@ -58,17 +97,83 @@ class WebSocketService {
 
   disconnect(): void {
     this.isManualClose = true;
+    this.clearReconnect();
+    this.reconnectAttempts = 0;
+    this.isReady = false;
+    this.rooms.clear();
+    this.lastSeqs.clear();
+    this.epoch = null;
     if (this.ws) {
       this.ws.close();
       this.ws = null;
     }
   }
 
+  private scheduleReconnect(delay: number): void {
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) return;
+
+    this.clearReconnect();
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      // Logged out while the reconnect was pending
+      if (this.isManualClose) return;
+
+      const previousSocket = this.ws;
+      this.reconnectAttempts++;
+      console.log(`🔄 Reconnecting WebSocket (${this.reconnectAttempts}/${this.maxReconnectAttempts})...`);
+      this.connect().catch(error => {
+        console.error('WebSocket reconnect failed:', error);
+        // The ticket request fails while the server is down, before a new socket exists whose
+        // close would schedule the next attempt
+        if (this.ws === previousSocket && !this.isManualClose) {
+          this.scheduleReconnect(this.reconnectInterval * this.reconnectAttempts);
+        }
+      });
+    }, delay);
+  }
+
+  private clearReconnect(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+  }
+
   private handleMessage(message: WebSocketMessage): void {
+    if (message.type === 'connection') {
+      this.handleConnected(message.payload);
+    } else if (message.type === 'resync_required') {
+      // The reloaded state is current as of these sequence numbers
+      message.payload.chats.forEach(({ chatId, seq }: { chatId: string; seq: number }) => {
+        this.lastSeqs.set(chatId, seq);
+      });
+    } else if (message.chatId && typeof message.seq === 'number') {
+      // Replayed events can arrive after newer live ones
+      this.lastSeqs.set(message.chatId, Math.max(message.seq, this.lastSeqs.get(message.chatId) || 0));
+    }
+
     const handlers = this.eventHandlers.get(message.type) || [];
     handlers.forEach(handler => handler(message.payload));
   }
 
+  // Rejoins rooms and, after a reconnect, asks the server to replay the chat events missed
+  // in between. Chats seen for the first time start from the server's current position.
+  private handleConnected(payload: { epoch: string; sequences?: Record<string, number> }): void {
+    this.isReady = true;
+    this.rooms.forEach(chatId => this.emit('join_room', { chatId }));
+
+    if (this.epoch && this.lastSeqs.size > 0) {
+      this.emit('resume', { epoch: this.epoch, chats: Object.fromEntries(this.lastSeqs) });
+    }
+
+    this.epoch = payload.epoch;
+    Object.entries(payload.sequences || {}).forEach(([chatId, seq]) => {
+      if (!this.lastSeqs.has(chatId)) {
+        this.lastSeqs.set(chatId, seq);
+      }
+    });
+  }
+
   on(event: string, handler: WebSocketEventHandler): void {
     if (!this.eventHandlers.has(event)) {
       this.eventHandlers.set(event, []);
@@ -84,46 +189,97 @@ class WebSocketService {
     }
   }
 
-  emit(event: string, payload: any, chatId?: string): void {
+  // Returns the request id the server echoes in an `error` reply if the event fails
+  emit<K extends ClientEventType>(type: K, payload: ClientEventPayloads[K]): string | null {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      const message: WebSocketMessage = {
-        type: event,
-        payload,
-        chatId
-      };
-      this.ws.send(JSON.stringify(message));
+      const id = String(++this.nextRequestId);
+      this.ws.send(JSON.stringify({ v: PROTOCOL_VERSION, id, type, payload }));
+      return id;
     } else {
       console.warn('WebSocket is not connected');
+      return null;
     }
   }
 
   // Convenience methods
   joinRoom(chatId: string): void {
-    this.emit('join_room', { chatId }, chatId);
+    this.rooms.add(chatId);
+    if (this.isReady) {
+      this.emit('join_room', { chatId });
+    }
   }
 
   leaveRoom(chatId: string): void {
-    this.emit('leave_room', { chatId }, chatId);
+    this.rooms.delete(chatId);
+    if (this.isReady) {
+      this.emit('leave_room', { chatId });
+    }
   }
 
-  sendMessage(chatId: string, content: string, messageType = 'text'): void {
-    this.emit('send_message', {
-      chatId,
-      content,
-      messageType
-    }, chatId);
+  // Resolves with the stored message once the server acknowledges the send. The ack is matched
+  // by clientMessageId, which the server also uses to store a retried send only once.
+  sendMessage(
+      chatId: string,
+      content: string,
+      clientMessageId: string,
+      replyTo?: string
+  ): Promise<Message> {
+    return new Promise((resolve, reject) => {
+      let requestId: string | null = null;
+
+      const settle = (error: Error | null, message?: Message) => {
+        clearTimeout(timeout);
+        this.off('message_ack', ackHandler);
+        this.off('error', errorHandler);
+        if (error) {
+          reject(error);
+        } else {
+          resolve(message!);
+        }
+      };
+
+      const ackHandler = (payload: { clientMessageId?: string; message: Message }) => {
+        if (payload.clientMessageId === clientMessageId) settle(null, payload.message);
+      };
+
+      const errorHandler = (payload: ProtocolErrorEvent) => {
+        if ((requestId && payload.requestId === requestId) || payload.clientMessageId === clientMessageId) {
+          settle(new Error(payload.message));
+        }
+      };
+
+      const timeout = setTimeout(() => settle(new Error('Message was not acknowledged')), MESSAGE_ACK_TIMEOUT_MS);
+      this.on('message_ack', ackHandler);
+      this.on('error', errorHandler);
+
+      requestId = this.isReady
+          ? this.emit('send_message', { chatId, content, clientMessageId, ...(replyTo && { replyTo }) })
+          : null;
+      if (!requestId) {
+        settle(new Error('WebSocket is not connected'));
+      }
+    });
   }
 
   startTyping(chatId: string): void {
-    this.emit('typing_start', { chatId }, chatId);
+    this.emit('typing_start', { chatId });
   }
 
   stopTyping(chatId: string): void {
-    this.emit('typing_stop', { chatId }, chatId);
+    this.emit('typing_stop', { chatId });
   }
 
   markMessageAsRead(messageId: string, chatId: string): void {
-    this.emit('message_read', { messageId, chatId }, chatId);
+    this.emit('message_read', { messageId, chatId });
+  }
+
+  acknowledgeDelivery(messageId: string, chatId: string): void {
+    this.emit('message_delivered', { messageId, chatId });
+  }
+
+  // Hands a fresh token to the open connection before its current credentials expire
+  reauthenticate(token: string): void {
+    this.emit('reauthenticate', { token });
   }
 
   isConnected(): boolean {
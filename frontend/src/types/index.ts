@@ -19,15 +19,60 @@ export interface Message {
   fileSize?: number;
   isEdited: boolean;
   editedAt?: Date;
-  readBy: ReadReceipt[];
+  replyTo?: MessageReplySnapshot | null;
+  reactions?: Reaction[];
+  deletedAt?: Date;
+  // Set by the sending client so a retried send cannot create a second message
+  clientMessageId?: string;
   createdAt: Date;
 }
 
-export interface ReadReceipt {
+export interface MessageRevision {
+  content: string;
+  editedAt: Date;
+}
+
+export interface Reaction {
+  emoji: string;
+  users: string[];
+}
+
+export interface MessageReplySnapshot {
+  id: string;
+  sender: Pick<User, 'id' | 'username' | 'avatar'>;
+  content: string;
+  messageType: Message['messageType'];
+  fileName?: string;
+  deletedAt?: Date;
+  createdAt: Date;
+}
+
+export interface PinnedMessage {
+  message: MessageReplySnapshot;
+  pinnedBy: Pick<User, 'id' | 'username' | 'avatar'>;
+  pinnedAt: Date;
+}
+
+// How far a chat member has read; everything up to lastReadMessage counts as read
+export interface ReadPointer {
   user: string;
+  lastReadMessage: string;
+  lastReadMessageAt: Date;
   readAt: Date;
 }
 
+// How far a chat member's client has acknowledged receiving messages
+export interface DeliveryPointer {
+  user: string;
+  lastDeliveredMessage: string;
+  lastDeliveredMessageAt: Date;
+  deliveredAt: Date;
+}
+
+// Tick state of an own message: not yet persisted, persisted, reached a recipient, read,
+// or a send that failed and can be retried
+export type MessageStatus = 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
+
 export interface Chat {
   id: string;
   name?: string;
@@ -35,6 +80,10 @@ export interface Chat {
   participants: User[];
   admin?: User;
   lastMessage?: Message;
+  readPointers?: ReadPointer[];
+  deliveryPointers?: DeliveryPointer[];
+  unreadCount?: number;
+  firstUnreadMessageId?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -51,6 +100,49 @@ export interface WebSocketMessage {
   payload: any;
   chatId?: string;
   userId?: string;
+  seq?: number;
+}
+
+// Events the client may send, mirroring backend/src/websocket/protocol.ts
+export interface ClientEventPayloads {
+  join_room: { chatId: string };
+  leave_room: { chatId: string };
+  send_message: {
+    chatId: string;
+    content: string;
+    replyTo?: string;
+    clientMessageId?: string;
+  };
+  typing_start: { chatId: string };
+  typing_stop: { chatId: string };
+  message_read: { chatId: string; messageId?: string };
+  message_delivered: { chatId: string; messageId: string };
+  resume: { epoch: string; chats: Record<string, number> };
+  reauthenticate: { token: string };
+}
+
+export type ClientEventType = keyof ClientEventPayloads;
+
+export type ProtocolErrorCode =
+  | 'invalid_json'
+  | 'invalid_message'
+  | 'unknown_type'
+  | 'invalid_payload'
+  | 'unsupported_version'
+  | 'bad_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'internal_error';
+
+// Payload of the server's `error` event; requestId is set when a specific client event failed
+export interface ProtocolErrorEvent {
+  code: ProtocolErrorCode;
+  message: string;
+  requestId?: string;
+  details?: string[];
+  clientMessageId?: string;
 }
 
 export interface TypingUser {
@@ -59,6 +151,30 @@ export interface TypingUser {
   chatId: string;
 }
 
+// Message history is paged relative to a message ID rather than by page number
+export interface MessagePageCursor {
+  before?: string;
+  after?: string;
+  around?: string;
+}
+
+export interface SearchSnippet {
+  text: string;
+  highlights: [number, number][];
+}
+
+export interface MessageSearchResult {
+  message: Message;
+  snippet: SearchSnippet;
+}
+
+export interface MessageSearchFilters {
+  chatId?: string;
+  from?: string;
+  before?: string;
+  after?: string;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   message?: string;
@@ -0,0 +1,58 @@
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
+
+export const MAX_FILE_SIZE = Number(import.meta.env.VITE_MAX_FILE_SIZE) || 10485760;
+
+// Keep in sync with the MIME types accepted by the backend upload middleware
+export const ACCEPTED_FILE_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'application/zip',
+  'application/json',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'text/plain',
+  'text/csv'
+];
+
+export const isImageFile = (file: File): boolean => {
+  return file.type.startsWith('image/');
+};
+
+export const validateFile = (file: File): string | null => {
+  if (!ACCEPTED_FILE_TYPES.includes(file.type)) {
+    return `${file.name}: file type is not allowed`;
+  }
+
+  if (file.size > MAX_FILE_SIZE) {
+    return `${file.name}: file exceeds ${formatFileSize(MAX_FILE_SIZE)}`;
+  }
+
+  return null;
+};
+
+export const formatFileSize = (bytes?: number): string => {
+  if (!bytes) return '0 B';
+
+  const units = ['B', 'KB', 'MB', 'GB'];
+  const exponent = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+  const value = bytes / Math.pow(1024, exponent);
+
+  return `${value.toFixed(exponent === 0 ? 0 : 1)} ${units[exponent]}`;
+};
+
+// Uploads are served relative to the API host, not the frontend dev server. Anything but a
+// path below /uploads/ on that host is refused, so a message cannot carry an arbitrary link.
+export const getFileUrl = (fileUrl: string): string | null => {
+  try {
+    const url = new URL(fileUrl, API_BASE_URL);
+    const isUpload = url.origin === new URL(API_BASE_URL).origin && url.pathname.startsWith('/uploads/');
+    return isUpload ? url.toString() : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,63 @@
+import { Chat, DeliveryPointer, Message, MessageStatus, ReadPointer, User } from '@/types';
+
+type MessagePosition = Pick<Message, 'id' | 'createdAt'>;
+
+export interface MessageReceipt {
+  user: User;
+  deliveredAt?: Date;
+  readAt?: Date;
+  // Pointers only keep the time they last moved. Unless they stopped on this very message,
+  // the message was read or delivered at some point up to that time, not exactly then.
+  deliveredAtIsExact: boolean;
+  readAtIsExact: boolean;
+}
+
+// Whether a pointer resting on (pointerMessageId, pointerMessageAt) covers the message
+const hasReached = (pointerMessageId: string, pointerMessageAt: Date, message: MessagePosition) => {
+  const pointerTime = new Date(pointerMessageAt).getTime();
+  const messageTime = new Date(message.createdAt).getTime();
+  return pointerMessageId === message.id || pointerTime > messageTime;
+};
+
+// Whether a member's read pointer has reached the message
+export const hasReadMessage = (pointer: ReadPointer, message: MessagePosition) =>
+    hasReached(pointer.lastReadMessage, pointer.lastReadMessageAt, message);
+
+// Whether a member's client has acknowledged the message
+export const hasDeliveredMessage = (pointer: DeliveryPointer, message: MessagePosition) =>
+    hasReached(pointer.lastDeliveredMessage, pointer.lastDeliveredMessageAt, message);
+
+// Delivery and read state of the message for every member except its sender
+export const getMessageReceipts = (message: Message, chat: Chat): MessageReceipt[] =>
+    chat.participants
+        .filter(participant => participant.id !== message.sender.id)
+        .map(participant => {
+          const readPointer = chat.readPointers?.find(p => p.user === participant.id);
+          const deliveryPointer = chat.deliveryPointers?.find(p => p.user === participant.id);
+          const readAt = readPointer && hasReadMessage(readPointer, message) ? readPointer.readAt : undefined;
+          const isDelivered = !!deliveryPointer && hasDeliveredMessage(deliveryPointer, message);
+          const deliveredAt = isDelivered ? deliveryPointer.deliveredAt : readAt;
+
+          return {
+            user: participant,
+            deliveredAt,
+            readAt,
+            deliveredAtIsExact: isDelivered && deliveryPointer.lastDeliveredMessage === message.id,
+            readAtIsExact: !!readAt && readPointer?.lastReadMessage === message.id
+          };
+        });
+
+export const getMessageStatus = (message: Message, chat: Chat): MessageStatus => {
+  const receipts = getMessageReceipts(message, chat);
+
+  if (receipts.some(receipt => receipt.readAt)) return 'read';
+  if (receipts.some(receipt => receipt.deliveredAt)) return 'delivered';
+  return 'sent';
+};
+
+// Members other than the sender whose read pointer has reached the message, earliest reader first
+export const getMessageReaders = (message: Message, chat: Chat): User[] =>
+    getMessageReceipts(message, chat)
+        .filter(receipt => receipt.readAt)
+        .sort((a, b) => new Date(a.readAt!).getTime() - new Date(b.readAt!).getTime())
+        .map(receipt => receipt.user);